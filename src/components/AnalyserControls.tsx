@@ -0,0 +1,91 @@
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  FFT_SIZES,
+  MAX_DECIBELS_RANGE,
+  MIN_DECIBELS_RANGE,
+  type AnalyserOutput,
+  type AnalyserSettings,
+} from '@/lib/audio/analysis';
+
+interface AnalyserControlsProps {
+  settings: AnalyserSettings;
+  onChangeSettings: (settings: AnalyserSettings) => void;
+}
+
+const SLIDERS: { id: 'smoothing' | 'minDecibels' | 'maxDecibels' | 'gain'; name: string; min: number; max: number; step: number; format: (value: number) => string }[] = [
+  { id: 'smoothing', name: 'Smoothing', min: 0, max: 0.99, step: 0.01, format: (value) => value.toFixed(2) },
+  { id: 'minDecibels', name: 'Floor', ...MIN_DECIBELS_RANGE, step: 1, format: (value) => `${value} dB` },
+  { id: 'maxDecibels', name: 'Ceiling', ...MAX_DECIBELS_RANGE, step: 1, format: (value) => `${value} dB` },
+  { id: 'gain', name: 'Gain', min: 0.5, max: 8, step: 0.25, format: (value) => `${value.toFixed(2)}×` },
+];
+
+const AnalyserControls: React.FC<AnalyserControlsProps> = ({ settings, onChangeSettings }) => {
+  const update = (changes: Partial<AnalyserSettings>) => {
+    onChangeSettings({ ...settings, ...changes });
+  };
+
+  return (
+    <div className="flex flex-col space-y-3 text-white">
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-300">FFT size</Label>
+        <Select
+          value={String(settings.fftSize)}
+          onValueChange={(value) => update({ fftSize: Number(value) })}
+        >
+          <SelectTrigger className="h-8 bg-black/40 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FFT_SIZES.map((size) => (
+              <SelectItem key={size} value={String(size)}>
+                {size} ({size / 2} bins)
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {SLIDERS.map((slider) => (
+        <div key={slider.id} className="space-y-1">
+          <div className="flex justify-between text-xs text-gray-300">
+            <Label className="text-xs">{slider.name}</Label>
+            <span>{slider.format(settings[slider.id])}</span>
+          </div>
+          <Slider
+            min={slider.min}
+            max={slider.max}
+            step={slider.step}
+            value={[settings[slider.id]]}
+            onValueChange={([value]) => update({ [slider.id]: value })}
+          />
+        </div>
+      ))}
+
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-300">Output</Label>
+        <Select
+          value={settings.output}
+          onValueChange={(value) => update({ output: value as AnalyserOutput })}
+        >
+          <SelectTrigger className="h-8 bg-black/40 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="byte">Byte (8-bit)</SelectItem>
+            <SelectItem value="float">Float (full precision)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
+
+export default AnalyserControls;
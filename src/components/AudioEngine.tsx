@@ -1,50 +1,194 @@
-
-import { useEffect, useRef, useState } from 'react';
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import OutputMeter from '@/components/OutputMeter';
+import PianoKeyboard from '@/components/PianoKeyboard';
+import TransportBar from '@/components/TransportBar';
+import { toast } from '@/hooks/use-toast';
+import { createAnalysisGraph, type AnalyserSettings, type AnalysisGraph } from '@/lib/audio/analysis';
+import { openLiveInput, usesLiveInput, usesSynth, type AudioSource, type LiveInput } from '@/lib/audio/input';
+import type { EffectSettings } from '@/lib/audio/effects';
+import { createOutputGraph, type OutputGraph } from '@/lib/audio/graph';
+import { createLevelMeter, type LevelMeter } from '@/lib/audio/meter';
+import { noteName } from '@/lib/audio/notes';
+import type { SynthPatch } from '@/lib/audio/patch';
+import { createTrackPlayer, decodeAudioFile, type TrackPlayer } from '@/lib/audio/trackPlayer';
+import { createVoiceManager, type VoiceManager } from '@/lib/audio/voiceManager';
+import type { AnalyserFrame, FrameSource } from '@/lib/frameSource';
+import { createNoteEvent, type NoteBus } from '@/lib/noteBus';
+import type { NoteEvent } from '@/lib/recording/take';
+import {
+  KEY_OFFSETS,
+  OCTAVE_DOWN_KEY,
+  OCTAVE_UP_KEY,
+  TRANSPOSE_DOWN_KEY,
+  TRANSPOSE_UP_KEY,
+  MIN_OCTAVE,
+  MAX_OCTAVE,
+  DEFAULT_OCTAVE,
+  MAX_TRANSPOSE,
+  baseNote,
+  keyNote,
+} from '@/lib/keyboard';
 
 interface AudioEngineProps {
-  onAudioProcess: (analyserData: Uint8Array) => void;
+  // Receives a new analyser frame every animation frame
+  frameSource: FrameSource;
+  // Receives every note as it starts and stops sounding
+  noteBus: NoteBus;
+  analyserSettings: AnalyserSettings;
+  effects: EffectSettings[];
+  // Master volume in dB
+  volume: number;
+  onChangeVolume: (volume: number) => void;
+  patch: SynthPatch;
+  source: AudioSource;
+  onChangeSource: (source: AudioSource) => void;
+  track: File | null;
+  onCloseTrack: () => void;
+  // Every note the engine plays, stamped with its AudioContext start time
+  onNoteEvent?: (event: NoteEvent) => void;
+}
+
+// Every note source (computer keyboard, on-screen keys, MIDI, playback) plays
+// through these. An optional time schedules the note on the AudioContext clock.
+export interface AudioEngineHandle {
+  noteOn: (note: number, velocity?: number, time?: number) => void;
+  noteOff: (note: number, time?: number) => void;
+  setSustain: (on: boolean) => void;
+  setPitchBend: (amount: number) => void;
+  currentTime: () => number;
+  // A MediaStream carrying the limited output, for recording what the speakers play
+  createAudioTap: () => AudioTap | null;
+}
+
+export interface AudioTap {
+  stream: MediaStream;
+  dispose: () => void;
 }
 
-// Define the note frequencies for A through L (follows a musical scale)
-const NOTES = {
-  'a': 261.63, // C4 (middle C)
-  's': 293.66, // D4
-  'd': 329.63, // E4
-  'f': 349.23, // F4
-  'g': 392.00, // G4
-  'h': 440.00, // A4
-  'j': 493.88, // B4
-  'k': 523.25, // C5
-  'l': 587.33, // D5
+// How far a full pitch wheel throw bends, in semitones
+const PITCH_BEND_RANGE = 2;
+
+// Run a UI update once the audio clock reaches the given time
+const atAudioTime = (context: BaseAudioContext, time: number, update: () => void) => {
+  const delay = (time - context.currentTime) * 1000;
+  if (delay <= 0) {
+    update();
+  } else {
+    setTimeout(update, delay);
+  }
 };
 
-const AudioEngine: React.FC<AudioEngineProps> = ({ onAudioProcess }) => {
+const AudioEngine = forwardRef<AudioEngineHandle, AudioEngineProps>(({ frameSource, noteBus, analyserSettings, effects, volume, onChangeVolume, patch, source, onChangeSource, track, onCloseTrack, onNoteEvent }, ref) => {
   const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const oscillatorsRef = useRef<Map<string, OscillatorNode>>(new Map());
-  const gainsRef = useRef<Map<string, GainNode>>(new Map());
-  const [activeKeys, setActiveKeys] = useState<Set<string>>(new Set());
+  const analysisRef = useRef<AnalysisGraph | null>(null);
+  const outputRef = useRef<OutputGraph | null>(null);
+  const synthBusRef = useRef<GainNode | null>(null);
+  const trackBusRef = useRef<GainNode | null>(null);
+  const [meter, setMeter] = useState<LevelMeter | null>(null);
+  const [player, setPlayer] = useState<TrackPlayer | null>(null);
+  const voiceManagerRef = useRef<VoiceManager | null>(null);
+  // Notes the player is holding down, whether or not a voice still plays them
+  const heldNotesRef = useRef<Set<number>>(new Set());
+  // Voices still audible, including those in their release tail
+  const soundingVoicesRef = useRef(0);
+  const [activeNotes, setActiveNotes] = useState<Set<number>>(new Set());
   const frameRef = useRef<number | null>(null);
-  const dataArrayRef = useRef<Uint8Array | null>(null);
+  // The analysis graph reuses one frame, so publishing allocates nothing
+  const analyserFrameRef = useRef<AnalyserFrame | null>(null);
+  const patchRef = useRef(patch);
+  const sustainRef = useRef(false);
+  const sustainedNotesRef = useRef<Set<number>>(new Set());
+  const pitchBendRef = useRef(0); // cents
+  const [octave, setOctave] = useState(DEFAULT_OCTAVE);
+  const [transpose, setTranspose] = useState(0);
+  // Remember which note each held key started, so a key released after an
+  // octave or transpose change still stops the right note
+  const pressedKeysRef = useRef<Map<string, number>>(new Map());
+  const onNoteEventRef = useRef(onNoteEvent);
+
+  // Read at startup; later changes are applied to the running analyser
+  const analyserSettingsRef = useRef(analyserSettings);
+  useEffect(() => {
+    analyserSettingsRef.current = analyserSettings;
+    analysisRef.current?.configure(analyserSettings);
+  }, [analyserSettings]);
+
+  // Likewise for the effects chain
+  const effectsRef = useRef(effects);
+  useEffect(() => {
+    effectsRef.current = effects;
+    outputRef.current?.effects.set(effects);
+  }, [effects]);
+
+  const volumeRef = useRef(volume);
+  useEffect(() => {
+    volumeRef.current = volume;
+    outputRef.current?.setVolume(volume);
+  }, [volume]);
+
+  // Read the patch through a ref so changing it doesn't rebind the key handlers
+  useEffect(() => {
+    patchRef.current = patch;
+  }, [patch]);
+
+  useEffect(() => {
+    onNoteEventRef.current = onNoteEvent;
+  }, [onNoteEvent]);
 
   useEffect(() => {
     const initAudio = () => {
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-      analyserRef.current = audioContextRef.current.createAnalyser();
-      analyserRef.current.fftSize = 256;
-      
-      const bufferLength = analyserRef.current.frequencyBinCount;
-      dataArrayRef.current = new Uint8Array(bufferLength);
+      audioContextRef.current = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+      analysisRef.current = createAnalysisGraph(audioContextRef.current, analyserSettingsRef.current);
+      analyserFrameRef.current = analysisRef.current.frame;
       
       // Set initial values to ensure visualizer has data
-      if (dataArrayRef.current) {
-        for (let i = 0; i < dataArrayRef.current.length; i++) {
-          dataArrayRef.current[i] = Math.random() * 50; // Add some random initial data
-        }
-        onAudioProcess(dataArrayRef.current);
+      const initialData = analyserFrameRef.current.frequency;
+      for (let i = 0; i < initialData.length; i++) {
+        initialData[i] = Math.random() * 50; // Add some random initial data
       }
+      frameSource.publish(analyserFrameRef.current);
       
-      analyserRef.current.connect(audioContextRef.current.destination);
+      // Everything audible goes through the master bus and its effects on the
+      // way out. The synth is always audible; the analyser is a side tap that
+      // never reaches the speakers, so live input can't feed back
+      const graph = createOutputGraph(audioContextRef.current, {
+        effects: effectsRef.current,
+        volume: volumeRef.current,
+      });
+      outputRef.current = graph;
+      synthBusRef.current = graph.synthBus;
+      setMeter(createLevelMeter(audioContextRef.current, graph.masterGain));
+
+      // The voice manager reports on the audio clock; the keyboard, the note
+      // bus and the voice normalisation catch up once that time comes round
+      const context = audioContextRef.current;
+      const countVoices = (delta: number) => {
+        soundingVoicesRef.current += delta;
+        graph.setVoiceCount(soundingVoicesRef.current);
+      };
+      voiceManagerRef.current = createVoiceManager(context, graph.synthBus, {
+        events: {
+          noteStart: (note, velocity, time) => atAudioTime(context, time, () => {
+            setActiveNotes(prev => new Set(prev).add(note));
+            noteBus.publish(createNoteEvent('noteOn', note, velocity, time));
+          }),
+          noteStop: (note, time) => atAudioTime(context, time, () => {
+            setActiveNotes(prev => {
+              const newSet = new Set(prev);
+              newSet.delete(note);
+              return newSet;
+            });
+            noteBus.publish(createNoteEvent('noteOff', note, 0, time));
+          }),
+          voiceStart: (time) => atAudioTime(context, time, () => countVoices(1)),
+          voiceEnd: (time) => atAudioTime(context, time, () => countVoices(-1)),
+        },
+      });
+
+      // Dropped audio files are heard and always analysed, whatever the source
+      trackBusRef.current = audioContextRef.current.createGain();
+      trackBusRef.current.connect(graph.masterBus);
+      trackBusRef.current.connect(analysisRef.current.input);
     };
 
     initAudio(); // Initialize immediately
@@ -70,19 +214,12 @@ const AudioEngine: React.FC<AudioEngineProps> = ({ onAudioProcess }) => {
         audioContextRef.current.close();
       }
     };
-  }, [onAudioProcess]);
+  }, [frameSource, noteBus]);
 
   useEffect(() => {
     const updateAnalyser = () => {
-      if (analyserRef.current && dataArrayRef.current) {
-        analyserRef.current.getByteFrequencyData(dataArrayRef.current);
-        
-        // Amplify the data to make visualizations more pronounced
-        for (let i = 0; i < dataArrayRef.current.length; i++) {
-          dataArrayRef.current[i] = Math.min(255, dataArrayRef.current[i] * 1.5);
-        }
-        
-        onAudioProcess(dataArrayRef.current);
+      if (analysisRef.current) {
+        frameSource.publish(analysisRef.current.read({ pitch: frameSource.wantsPitch() }));
       }
       frameRef.current = requestAnimationFrame(updateAnalyser);
     };
@@ -96,80 +233,218 @@ const AudioEngine: React.FC<AudioEngineProps> = ({ onAudioProcess }) => {
         cancelAnimationFrame(frameRef.current);
       }
     };
-  }, [onAudioProcess]);
+  }, [frameSource]);
 
+  // Route the selected sources into the analyser
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      const key = e.key.toLowerCase();
-      
-      if (activeKeys.has(key) || !NOTES[key as keyof typeof NOTES]) {
-        return;
-      }
+    const context = audioContextRef.current;
+    const analyser = analysisRef.current?.input;
+    const synthBus = synthBusRef.current;
+    if (!context || !analyser || !synthBus) return;
 
-      if (audioContextRef.current && analyserRef.current) {
-        if (audioContextRef.current.state === 'suspended') {
-          audioContextRef.current.resume();
-        }
+    let cancelled = false;
+    let liveInput: LiveInput | null = null;
+
+    if (usesSynth(source)) {
+      synthBus.connect(analyser);
+    }
 
-        const oscillator = audioContextRef.current.createOscillator();
-        const gainNode = audioContextRef.current.createGain();
-        
-        oscillator.type = 'sine';
-        oscillator.frequency.setValueAtTime(
-          NOTES[key as keyof typeof NOTES], 
-          audioContextRef.current.currentTime
-        );
-        
-        oscillator.connect(gainNode);
-        gainNode.connect(analyserRef.current);
-        
-        oscillator.start();
-        gainNode.gain.setValueAtTime(0, audioContextRef.current.currentTime);
-        gainNode.gain.linearRampToValueAtTime(0.8, audioContextRef.current.currentTime + 0.1);
-        
-        oscillatorsRef.current.set(key, oscillator);
-        gainsRef.current.set(key, gainNode);
-        
-        setActiveKeys(new Set([...activeKeys, key]));
-        
-        // Boost the data for visualization when a key is pressed
-        if (dataArrayRef.current) {
-          const index = Math.floor(NOTES[key as keyof typeof NOTES] % dataArrayRef.current.length);
-          for (let i = 0; i < 10; i++) {
-            const idx = (index + i) % dataArrayRef.current.length;
-            dataArrayRef.current[idx] = 230;
+    if (usesLiveInput(source)) {
+      openLiveInput(context)
+        .then(input => {
+          if (cancelled) {
+            input.stop();
+            return;
+          }
+          liveInput = input;
+          input.node.connect(analyser);
+          if (context.state === 'suspended') {
+            context.resume();
           }
-          onAudioProcess(dataArrayRef.current);
+        })
+        .catch(error => {
+          if (cancelled) return;
+          console.warn('Live input unavailable:', error);
+          toast({
+            variant: 'destructive',
+            title: 'Microphone unavailable',
+            description: error instanceof DOMException && error.name === 'NotAllowedError'
+              ? 'Permission to use the microphone was denied. Falling back to the synth.'
+              : 'No audio input could be opened. Falling back to the synth.',
+          });
+          onChangeSource('synth');
+        });
+    }
+
+    return () => {
+      cancelled = true;
+      liveInput?.stop();
+      if (usesSynth(source)) {
+        synthBus.disconnect(analyser);
+      }
+    };
+  }, [source, onChangeSource]);
+
+  // Decode a dropped file and hand it to a fresh player
+  useEffect(() => {
+    const context = audioContextRef.current;
+    const trackBus = trackBusRef.current;
+    if (!context || !trackBus || !track) return;
+
+    let cancelled = false;
+    let trackPlayer: TrackPlayer | null = null;
+
+    decodeAudioFile(context, track)
+      .then(buffer => {
+        if (cancelled) return;
+        trackPlayer = createTrackPlayer(context, buffer, trackBus);
+        setPlayer(trackPlayer);
+        if (context.state === 'suspended') {
+          context.resume();
         }
+        trackPlayer.play();
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.warn('Could not decode audio file:', error);
+        toast({
+          variant: 'destructive',
+          title: 'Unsupported audio file',
+          description: `${track.name} could not be decoded.`,
+        });
+        onCloseTrack();
+      });
+
+    return () => {
+      cancelled = true;
+      trackPlayer?.dispose();
+      setPlayer(null);
+    };
+  }, [track, onCloseTrack]);
+
+  // Let the release tail play out on the audio clock; the note is free again
+  // right away, so a re-press starts a fresh voice
+  const releaseVoice = useCallback((note: number, time?: number) => {
+    const context = audioContextRef.current;
+    if (!context) return;
+    voiceManagerRef.current?.noteOff(note, Math.max(time ?? 0, context.currentTime));
+  }, []);
+
+  const noteOn = useCallback((note: number, velocity = 1, time?: number) => {
+    const context = audioContextRef.current;
+    if (!context || !voiceManagerRef.current) return;
+
+    if (context.state === 'suspended') {
+      context.resume();
+    }
+
+    // Striking a note that is still held by the sustain pedal retriggers it,
+    // which is where the recording sees the earlier one end
+    const startTime = Math.max(time ?? 0, context.currentTime);
+    if (sustainedNotesRef.current.delete(note)) {
+      onNoteEventRef.current?.({ type: 'noteOff', note, velocity: 0, time: startTime });
+    }
+    heldNotesRef.current.add(note);
+
+    voiceManagerRef.current.noteOn(patchRef.current, note, velocity, startTime, pitchBendRef.current);
+    onNoteEventRef.current?.({ type: 'noteOn', note, velocity, time: startTime });
+  }, []);
+
+  const noteOff = useCallback((note: number, time?: number) => {
+    const context = audioContextRef.current;
+    if (!context || !heldNotesRef.current.has(note)) return;
+    heldNotesRef.current.delete(note);
+
+    // A sustained note is recorded as ending when the pedal lets it go, so
+    // the take plays back the way it sounded
+    if (sustainRef.current) {
+      sustainedNotesRef.current.add(note);
+      return;
+    }
+    const releaseTime = Math.max(time ?? 0, context.currentTime);
+    onNoteEventRef.current?.({ type: 'noteOff', note, velocity: 0, time: releaseTime });
+    releaseVoice(note, releaseTime);
+  }, [releaseVoice]);
+
+  const setSustain = useCallback((on: boolean) => {
+    sustainRef.current = on;
+    const context = audioContextRef.current;
+    if (!on && context) {
+      sustainedNotesRef.current.forEach(note => {
+        onNoteEventRef.current?.({ type: 'noteOff', note, velocity: 0, time: context.currentTime });
+        releaseVoice(note, context.currentTime);
+      });
+      sustainedNotesRef.current.clear();
+    }
+  }, [releaseVoice]);
+
+  const setPitchBend = useCallback((amount: number) => {
+    pitchBendRef.current = amount * PITCH_BEND_RANGE * 100;
+    const context = audioContextRef.current;
+    if (!context) return;
+
+    voiceManagerRef.current?.voices().forEach(({ voice }) => {
+      voice.bend(pitchBendRef.current, context.currentTime);
+    });
+  }, []);
+
+  const currentTime = useCallback(() => audioContextRef.current?.currentTime ?? 0, []);
+
+  const createAudioTap = useCallback((): AudioTap | null => {
+    const context = audioContextRef.current;
+    const output = outputRef.current?.output;
+    if (!context || !output) return null;
+
+    const tap = context.createMediaStreamDestination();
+    output.connect(tap);
+    return {
+      stream: tap.stream,
+      dispose: () => output.disconnect(tap),
+    };
+  }, []);
+
+  useImperativeHandle(ref, () => ({
+    noteOn,
+    noteOff,
+    setSustain,
+    setPitchBend,
+    currentTime,
+    createAudioTap,
+  }), [noteOn, noteOff, setSustain, setPitchBend, currentTime, createAudioTap]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+      const key = e.key.toLowerCase();
+
+      switch (key) {
+        case OCTAVE_DOWN_KEY:
+          setOctave(prev => Math.max(MIN_OCTAVE, prev - 1));
+          return;
+        case OCTAVE_UP_KEY:
+          setOctave(prev => Math.min(MAX_OCTAVE, prev + 1));
+          return;
+        case TRANSPOSE_DOWN_KEY:
+          setTranspose(prev => Math.max(-MAX_TRANSPOSE, prev - 1));
+          return;
+        case TRANSPOSE_UP_KEY:
+          setTranspose(prev => Math.min(MAX_TRANSPOSE, prev + 1));
+          return;
       }
+
+      if (pressedKeysRef.current.has(key)) return;
+      const note = keyNote(key, octave, transpose);
+      if (note === null) return;
+      pressedKeysRef.current.set(key, note);
+      noteOn(note);
     };
 
     const handleKeyUp = (e: KeyboardEvent) => {
       const key = e.key.toLowerCase();
-      
-      if (!NOTES[key as keyof typeof NOTES]) {
-        return;
-      }
-      
-      if (audioContextRef.current && oscillatorsRef.current.has(key)) {
-        const gainNode = gainsRef.current.get(key);
-        
-        if (gainNode) {
-          gainNode.gain.linearRampToValueAtTime(0, audioContextRef.current.currentTime + 0.1);
-          
-          setTimeout(() => {
-            oscillatorsRef.current.get(key)?.stop();
-            oscillatorsRef.current.delete(key);
-            gainsRef.current.delete(key);
-            
-            setActiveKeys(prev => {
-              const newSet = new Set(prev);
-              newSet.delete(key);
-              return newSet;
-            });
-          }, 100);
-        }
-      }
+      const note = pressedKeysRef.current.get(key);
+      if (note === undefined) return;
+      pressedKeysRef.current.delete(key);
+      noteOff(note);
     };
 
     window.addEventListener('keydown', handleKeyDown);
@@ -179,36 +454,43 @@ const AudioEngine: React.FC<AudioEngineProps> = ({ onAudioProcess }) => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [activeKeys, onAudioProcess]);
+  }, [noteOn, noteOff, octave, transpose]);
+
+  const keyHints = useMemo(() => {
+    const hints = new Map<number, string>();
+    Object.keys(KEY_OFFSETS).forEach(key => {
+      const note = keyNote(key, octave, transpose);
+      if (note !== null) hints.set(note, key);
+    });
+    return hints;
+  }, [octave, transpose]);
 
   return (
-    <div className="fixed bottom-8 left-0 w-full flex items-center justify-center z-30">
-      <div className="bg-black/60 backdrop-blur-md p-4 rounded-xl flex">
-        {Object.entries(NOTES).map(([key, _]) => (
-          <div 
-            key={key}
-            className={`key ${activeKeys.has(key) ? 'active' : ''}`}
-            onMouseDown={() => {
-              const keyEvent = new KeyboardEvent('keydown', { key });
-              window.dispatchEvent(keyEvent);
-            }}
-            onMouseUp={() => {
-              const keyEvent = new KeyboardEvent('keyup', { key });
-              window.dispatchEvent(keyEvent);
-            }}
-            onMouseLeave={() => {
-              if (activeKeys.has(key)) {
-                const keyEvent = new KeyboardEvent('keyup', { key });
-                window.dispatchEvent(keyEvent);
-              }
-            }}
-          >
-            <span className="key-hint">{key}</span>
-          </div>
-        ))}
+    <div className="fixed bottom-8 left-0 w-full flex flex-col items-center justify-center z-30">
+      {player && track && (
+        <TransportBar player={player} title={track.name} onClose={onCloseTrack} />
+      )}
+      <div className="bg-black/60 backdrop-blur-md p-4 rounded-xl flex flex-col items-center">
+        <div className="flex gap-4 mb-2 text-xs text-gray-300">
+          <span>Octave {octave} (Z/X)</span>
+          <span>Transpose {transpose > 0 ? `+${transpose}` : transpose} (C/V)</span>
+          <span>A = {noteName(baseNote(octave, transpose))}</span>
+        </div>
+        <div className="flex items-center gap-4">
+          <PianoKeyboard
+            activeNotes={activeNotes}
+            keyHints={keyHints}
+            focusNote={baseNote(octave, 0) + 6}
+            onNoteDown={noteOn}
+            onNoteUp={noteOff}
+          />
+          <OutputMeter meter={meter} volume={volume} onChangeVolume={onChangeVolume} />
+        </div>
       </div>
     </div>
   );
-};
+});
+
+AudioEngine.displayName = 'AudioEngine';
 
 export default AudioEngine;
@@ -1,27 +1,92 @@
 
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Music, AudioWaveform, Circle, Sparkles } from 'lucide-react';
+import SynthControls from '@/components/SynthControls';
+import MidiControls from '@/components/MidiControls';
+import SourceControls from '@/components/SourceControls';
+import AnalyserControls from '@/components/AnalyserControls';
+import EffectsControls from '@/components/EffectsControls';
+import VisualizerSettings from '@/components/VisualizerSettings';
+import RecorderControls from '@/components/RecorderControls';
+import VideoExportControls from '@/components/VideoExportControls';
+import DisplayControls from '@/components/DisplayControls';
+import type { AudioTap } from '@/components/AudioEngine';
+import type { MidiAccessStatus, MidiInputSelection } from '@/hooks/use-midi-input';
+import type { AnalyserSettings } from '@/lib/audio/analysis';
+import type { EffectSettings } from '@/lib/audio/effects';
+import type { AudioSource } from '@/lib/audio/input';
+import type { WavBitDepth } from '@/lib/audio/wav';
+import type { SynthPatch } from '@/lib/audio/patch';
+import type { MidiDevice } from '@/lib/midi/input';
+import type { Recorder, RecorderState } from '@/lib/recording/recorder';
+import type { Take } from '@/lib/recording/take';
+import { getVisualizer, listVisualizers, type VisualizerSettingsValues } from '@/lib/visualizers';
 
 interface ControlsProps {
   onChangeVisualizer: (visualizer: string) => void;
   activeVisualizer: string;
+  visualizerSettings: VisualizerSettingsValues;
+  onChangeVisualizerSetting: (key: string, value: unknown) => void;
+  renderScale: number;
+  onChangeRenderScale: (scale: number) => void;
+  patch: SynthPatch;
+  onChangePatch: (patch: SynthPatch) => void;
+  onImportPatch: (file: File) => void;
+  effects: EffectSettings[];
+  onChangeEffects: (effects: EffectSettings[]) => void;
+  source: AudioSource;
+  onChangeSource: (source: AudioSource) => void;
+  analyserSettings: AnalyserSettings;
+  onChangeAnalyserSettings: (settings: AnalyserSettings) => void;
+  midi: {
+    status: MidiAccessStatus;
+    devices: MidiDevice[];
+    selectedInput: MidiInputSelection;
+    selectInput: (input: MidiInputSelection) => void;
+  };
+  recording: {
+    recorder: Recorder;
+    state: RecorderState;
+    take: Take;
+  };
+  onImportMidi: (file: File) => void;
+  onBounce: (bitDepth: WavBitDepth) => Promise<void>;
+  getCanvas: () => HTMLCanvasElement | null;
+  createAudioTap: () => AudioTap | null;
 }
 
-const Controls: React.FC<ControlsProps> = ({ onChangeVisualizer, activeVisualizer }) => {
+const Controls: React.FC<ControlsProps> = ({
+  onChangeVisualizer,
+  activeVisualizer,
+  visualizerSettings,
+  onChangeVisualizerSetting,
+  renderScale,
+  onChangeRenderScale,
+  patch,
+  onChangePatch,
+  onImportPatch,
+  effects,
+  onChangeEffects,
+  source,
+  onChangeSource,
+  analyserSettings,
+  onChangeAnalyserSettings,
+  midi,
+  recording,
+  onImportMidi,
+  onBounce,
+  getCanvas,
+  createAudioTap,
+}) => {
   const [isOpen, setIsOpen] = useState(true);
 
-  const visualizers = [
-    { id: 'bars', name: 'Bars', icon: <AudioWaveform size={18} /> },
-    { id: 'circular', name: 'Circular', icon: <Circle size={18} /> },
-    { id: 'wave', name: 'Wave', icon: <Music size={18} /> },
-    { id: 'particles', name: 'Particles', icon: <Sparkles size={18} /> },
-  ];
+  const visualizers = listVisualizers();
+  const activePlugin = getVisualizer(activeVisualizer);
 
   return (
     <div className="fixed top-4 right-4 z-10">
       <div className={`transition-all duration-300 ease-in-out ${isOpen ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
-        <div className="bg-black/60 backdrop-blur-md p-4 rounded-xl mb-4">
+        <div className="bg-black/60 backdrop-blur-md p-4 rounded-xl mb-4 w-64 max-h-[calc(100vh-6rem)] overflow-y-auto">
           <div className="flex flex-col space-y-2">
             {visualizers.map((visualizer) => (
               <Button
@@ -34,11 +99,56 @@ const Controls: React.FC<ControlsProps> = ({ onChangeVisualizer, activeVisualize
                 }`}
                 onClick={() => onChangeVisualizer(visualizer.id)}
               >
-                {visualizer.icon}
+                <visualizer.icon size={18} />
                 {visualizer.name}
               </Button>
             ))}
           </div>
+
+          {activePlugin && (
+            <div className="mt-4">
+              <VisualizerSettings
+                plugin={activePlugin}
+                values={visualizerSettings}
+                onChange={onChangeVisualizerSetting}
+              />
+            </div>
+          )}
+
+          <h2 className="text-sm font-semibold text-white mt-4 mb-2">Display</h2>
+          <DisplayControls renderScale={renderScale} onChangeRenderScale={onChangeRenderScale} />
+
+          <h2 className="text-sm font-semibold text-white mt-4 mb-2">Source</h2>
+          <SourceControls source={source} onChangeSource={onChangeSource} />
+
+          <h2 className="text-sm font-semibold text-white mt-4 mb-2">Analyser</h2>
+          <AnalyserControls settings={analyserSettings} onChangeSettings={onChangeAnalyserSettings} />
+
+          <h2 className="text-sm font-semibold text-white mt-4 mb-2">Sound</h2>
+          <SynthControls patch={patch} onChangePatch={onChangePatch} onImportPatch={onImportPatch} />
+
+          <h2 className="text-sm font-semibold text-white mt-4 mb-2">Effects</h2>
+          <EffectsControls effects={effects} onChangeEffects={onChangeEffects} />
+
+          <h2 className="text-sm font-semibold text-white mt-4 mb-2">Recording</h2>
+          <RecorderControls
+            recorder={recording.recorder}
+            state={recording.state}
+            take={recording.take}
+            onImportMidi={onImportMidi}
+            onBounce={onBounce}
+          />
+
+          <h2 className="text-sm font-semibold text-white mt-4 mb-2">Video</h2>
+          <VideoExportControls getCanvas={getCanvas} createAudioTap={createAudioTap} />
+
+          <h2 className="text-sm font-semibold text-white mt-4 mb-2">MIDI</h2>
+          <MidiControls
+            status={midi.status}
+            devices={midi.devices}
+            selectedInput={midi.selectedInput}
+            onSelectInput={midi.selectInput}
+          />
         </div>
       </div>
 
@@ -0,0 +1,33 @@
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { MAX_RENDER_SCALE, MIN_RENDER_SCALE, pixelRatioFor } from '@/lib/visualizers/renderer';
+
+interface DisplayControlsProps {
+  renderScale: number;
+  onChangeRenderScale: (scale: number) => void;
+}
+
+const DisplayControls: React.FC<DisplayControlsProps> = ({ renderScale, onChangeRenderScale }) => {
+  const effective = pixelRatioFor(renderScale, window.devicePixelRatio || 1);
+
+  return (
+    <div className="space-y-1 text-white">
+      <div className="flex justify-between text-xs text-gray-300">
+        <Label className="text-xs">Render scale cap</Label>
+        <span>{renderScale.toFixed(2)}×</span>
+      </div>
+      <Slider
+        min={MIN_RENDER_SCALE}
+        max={MAX_RENDER_SCALE}
+        step={0.25}
+        value={[renderScale]}
+        onValueChange={([value]) => onChangeRenderScale(value)}
+      />
+      <p className="text-xs text-gray-400">
+        Drawing at {effective.toFixed(2)}× on this screen
+      </p>
+    </div>
+  );
+};
+
+export default DisplayControls;
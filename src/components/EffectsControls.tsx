@@ -0,0 +1,102 @@
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { getEffectDefinition, type EffectSettings } from '@/lib/audio/effects';
+
+interface EffectsControlsProps {
+  effects: EffectSettings[];
+  onChangeEffects: (effects: EffectSettings[]) => void;
+}
+
+const formatValue = (value: number, step: number) =>
+  value.toFixed(step < 0.01 ? 3 : step < 0.1 ? 2 : step < 1 ? 1 : 0);
+
+// One panel per effect, top to bottom in signal order
+const EffectsControls: React.FC<EffectsControlsProps> = ({ effects, onChangeEffects }) => {
+  const update = (index: number, changes: Partial<EffectSettings>) => {
+    onChangeEffects(effects.map((effect, i) => (i === index ? { ...effect, ...changes } : effect)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...effects];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChangeEffects(next);
+  };
+
+  return (
+    <div className="flex flex-col space-y-2 text-white">
+      {effects.map((effect, index) => {
+        const definition = getEffectDefinition(effect.type);
+        return (
+          <div key={effect.type} className="rounded-md bg-black/40 p-2 space-y-2">
+            <div className="flex items-center gap-1">
+              <Switch
+                checked={!effect.bypass}
+                onCheckedChange={(checked) => update(index, { bypass: !checked })}
+              />
+              <Label className="flex-1 ml-1 text-xs">{definition.name}</Label>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Move earlier in the chain"
+                className="h-6 w-6"
+                disabled={index === 0}
+                onClick={() => move(index, -1)}
+              >
+                <ChevronUp size={14} />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Move later in the chain"
+                className="h-6 w-6"
+                disabled={index === effects.length - 1}
+                onClick={() => move(index, 1)}
+              >
+                <ChevronDown size={14} />
+              </Button>
+            </div>
+
+            {!effect.bypass && (
+              <>
+                <div className="space-y-1">
+                  <div className="flex justify-between text-xs text-gray-300">
+                    <Label className="text-xs">Dry / wet</Label>
+                    <span>{Math.round(effect.mix * 100)}%</span>
+                  </div>
+                  <Slider
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    value={[effect.mix]}
+                    onValueChange={([value]) => update(index, { mix: value })}
+                  />
+                </div>
+
+                {definition.params.map((param) => (
+                  <div key={param.id} className="space-y-1">
+                    <div className="flex justify-between text-xs text-gray-300">
+                      <Label className="text-xs">{param.name}</Label>
+                      <span>{formatValue(effect.params[param.id], param.step)}{param.unit}</span>
+                    </div>
+                    <Slider
+                      min={param.min}
+                      max={param.max}
+                      step={param.step}
+                      value={[effect.params[param.id]]}
+                      onValueChange={([value]) => update(index, { params: { ...effect.params, [param.id]: value } })}
+                    />
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default EffectsControls;
@@ -0,0 +1,70 @@
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { Envelope, EnvelopeCurve } from '@/lib/audio/envelope';
+
+interface EnvelopeControlsProps {
+  envelope: Envelope;
+  onChangeEnvelope: (envelope: Envelope) => void;
+  // Offer the linear/exponential choice; not every envelope uses it
+  showCurve?: boolean;
+}
+
+const ENVELOPE_STAGES: { id: keyof Omit<Envelope, 'curve'>; name: string; max: number; step: number; unit: string }[] = [
+  { id: 'attack', name: 'Attack', max: 2, step: 0.01, unit: 's' },
+  { id: 'decay', name: 'Decay', max: 2, step: 0.01, unit: 's' },
+  { id: 'sustain', name: 'Sustain', max: 1, step: 0.01, unit: '' },
+  { id: 'release', name: 'Release', max: 4, step: 0.01, unit: 's' },
+];
+
+const EnvelopeControls: React.FC<EnvelopeControlsProps> = ({ envelope, onChangeEnvelope, showCurve = false }) => {
+  const update = (changes: Partial<Envelope>) => {
+    onChangeEnvelope({ ...envelope, ...changes });
+  };
+
+  return (
+    <>
+      {ENVELOPE_STAGES.map((stage) => (
+        <div key={stage.id} className="space-y-1">
+          <div className="flex justify-between text-xs text-gray-300">
+            <Label className="text-xs">{stage.name}</Label>
+            <span>{envelope[stage.id].toFixed(2)}{stage.unit}</span>
+          </div>
+          <Slider
+            min={0}
+            max={stage.max}
+            step={stage.step}
+            value={[envelope[stage.id]]}
+            onValueChange={([value]) => update({ [stage.id]: value })}
+          />
+        </div>
+      ))}
+
+      {showCurve && (
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-300">Curve</Label>
+          <Select
+            value={envelope.curve}
+            onValueChange={(value) => update({ curve: value as EnvelopeCurve })}
+          >
+            <SelectTrigger className="h-8 bg-black/40 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="linear">Linear</SelectItem>
+              <SelectItem value="exponential">Exponential</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default EnvelopeControls;
@@ -0,0 +1,39 @@
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { HARMONIC_COUNT } from '@/lib/audio/patch';
+
+interface HarmonicsControlsProps {
+  harmonics: number[];
+  onChangeHarmonics: (harmonics: number[]) => void;
+}
+
+const HARMONIC_INDEXES = Array.from({ length: HARMONIC_COUNT }, (_, i) => i);
+
+const HarmonicsControls: React.FC<HarmonicsControlsProps> = ({ harmonics, onChangeHarmonics }) => {
+  // Patches saved with fewer partials read the rest as silent
+  const update = (index: number, amplitude: number) => {
+    onChangeHarmonics(HARMONIC_INDEXES.map(i => (i === index ? amplitude : harmonics[i] ?? 0)));
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+      {HARMONIC_INDEXES.map((index) => (
+        <div key={index} className="space-y-1">
+          <div className="flex justify-between text-xs text-gray-300">
+            <Label className="text-xs">{index === 0 ? 'Fundamental' : `Harmonic ${index + 1}`}</Label>
+            <span>{Math.round((harmonics[index] ?? 0) * 100)}%</span>
+          </div>
+          <Slider
+            min={0}
+            max={1}
+            step={0.01}
+            value={[harmonics[index] ?? 0]}
+            onValueChange={([value]) => update(index, value)}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default HarmonicsControls;
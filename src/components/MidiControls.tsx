@@ -0,0 +1,51 @@
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { MidiAccessStatus, MidiInputSelection } from '@/hooks/use-midi-input';
+import type { MidiDevice } from '@/lib/midi/input';
+
+interface MidiControlsProps {
+  status: MidiAccessStatus;
+  devices: MidiDevice[];
+  selectedInput: MidiInputSelection;
+  onSelectInput: (input: MidiInputSelection) => void;
+}
+
+const MidiControls: React.FC<MidiControlsProps> = ({ status, devices, selectedInput, onSelectInput }) => {
+  if (status === 'unsupported') {
+    return <p className="text-xs text-gray-400">Web MIDI is not available in this browser</p>;
+  }
+  if (status === 'denied') {
+    return <p className="text-xs text-gray-400">Permission to use MIDI devices was denied</p>;
+  }
+
+  return (
+    <div className="space-y-1 text-white">
+      <Label className="text-xs text-gray-300">Input device</Label>
+      <Select value={selectedInput} onValueChange={onSelectInput}>
+        <SelectTrigger className="h-8 bg-black/40 text-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All devices</SelectItem>
+          {devices.map((device) => (
+            <SelectItem key={device.id} value={device.id}>
+              {device.name}
+            </SelectItem>
+          ))}
+          <SelectItem value="off">Off</SelectItem>
+        </SelectContent>
+      </Select>
+      {devices.length === 0 && (
+        <p className="text-xs text-gray-400">No MIDI devices connected</p>
+      )}
+    </div>
+  );
+};
+
+export default MidiControls;
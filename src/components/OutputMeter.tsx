@@ -0,0 +1,130 @@
+import { useEffect, useRef, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { MASTER_VOLUME_RANGE } from '@/lib/audio/graph';
+import { dbToGain, gainToDb, type LevelMeter } from '@/lib/audio/meter';
+
+interface OutputMeterProps {
+  meter: LevelMeter | null;
+  volume: number;
+  onChangeVolume: (volume: number) => void;
+}
+
+// The meter's scale, in dBFS
+const FLOOR = -48;
+// Peak markers hold briefly, then fall at this rate in dB per second
+const PEAK_HOLD = 1000;
+const PEAK_FALL = 24;
+// How long the clip light stays on after the last clip, unless clicked
+const CLIP_HOLD = 2000;
+
+const toPercent = (gain: number) => {
+  const db = gainToDb(gain);
+  return db <= FLOOR ? 0 : Math.min(100, (1 - db / FLOOR) * 100);
+};
+
+const OutputMeter: React.FC<OutputMeterProps> = ({ meter, volume, onChangeVolume }) => {
+  // Bars move every frame, so they're styled directly rather than through state
+  const rmsRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const peakRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [clippedAt, setClippedAt] = useState(0);
+
+  useEffect(() => {
+    if (!meter) return;
+
+    const held = [
+      { db: -Infinity, time: 0 },
+      { db: -Infinity, time: 0 },
+    ];
+    let lastTime = performance.now();
+    let lastClip = 0;
+    let frame: number;
+
+    const update = () => {
+      const now = performance.now();
+      const elapsed = (now - lastTime) / 1000;
+      lastTime = now;
+
+      const reading = meter.read();
+      [reading.left, reading.right].forEach((level, i) => {
+        const peakDb = gainToDb(level.peak);
+        if (peakDb >= held[i].db) {
+          held[i].db = peakDb;
+          held[i].time = now;
+        } else if (now - held[i].time > PEAK_HOLD) {
+          held[i].db = Math.max(peakDb, held[i].db - PEAK_FALL * elapsed);
+        }
+
+        const rmsBar = rmsRefs.current[i];
+        const peakMark = peakRefs.current[i];
+        if (rmsBar) rmsBar.style.width = `${toPercent(level.rms)}%`;
+        if (peakMark) peakMark.style.left = `${toPercent(dbToGain(held[i].db))}%`;
+      });
+
+      // Only re-render when the clip light needs to change
+      if (reading.clipped && now - lastClip > 100) {
+        lastClip = now;
+        setClippedAt(now);
+      }
+      frame = requestAnimationFrame(update);
+    };
+
+    frame = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(frame);
+  }, [meter]);
+
+  // Turn the clip light off once it has been quiet for long enough
+  useEffect(() => {
+    if (!clippedAt) return;
+    const timeout = setTimeout(() => setClippedAt(0), CLIP_HOLD);
+    return () => clearTimeout(timeout);
+  }, [clippedAt]);
+
+  return (
+    <div className="w-36 space-y-2 text-white">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 space-y-1">
+          {['L', 'R'].map((channel, i) => (
+            <div key={channel} className="flex items-center gap-1 text-[10px] text-gray-400">
+              <span className="w-2">{channel}</span>
+              <div className="relative h-2 flex-1 overflow-hidden rounded-sm bg-black/40">
+                <div
+                  ref={(element) => { rmsRefs.current[i] = element; }}
+                  className="absolute inset-y-0 left-0 bg-gradient-to-r from-green-500 via-yellow-400 to-red-500"
+                  style={{ width: 0 }}
+                />
+                <div
+                  ref={(element) => { peakRefs.current[i] = element; }}
+                  className="absolute inset-y-0 w-px bg-white"
+                  style={{ left: 0 }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          title="Clipping before the limiter; click to reset"
+          className={`h-4 w-4 rounded-full border border-red-900 ${clippedAt ? 'bg-red-500' : 'bg-red-950'}`}
+          onClick={() => setClippedAt(0)}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex justify-between text-xs text-gray-300">
+          <Label className="text-xs">Volume</Label>
+          <span>{volume <= MASTER_VOLUME_RANGE.min ? 'Muted' : `${volume > 0 ? '+' : ''}${volume} dB`}</span>
+        </div>
+        <Slider
+          min={MASTER_VOLUME_RANGE.min}
+          max={MASTER_VOLUME_RANGE.max}
+          step={1}
+          value={[volume]}
+          onValueChange={([value]) => onChangeVolume(value)}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default OutputMeter;
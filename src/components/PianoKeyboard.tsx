@@ -0,0 +1,77 @@
+import { useEffect, useRef } from 'react';
+import { isBlackKey, noteName } from '@/lib/audio/notes';
+
+interface PianoKeyboardProps {
+  activeNotes: Set<number>;
+  // Computer keyboard letter shown on each key it currently plays
+  keyHints: Map<number, string>;
+  // Note kept in view as the octave or transpose changes
+  focusNote: number;
+  onNoteDown: (note: number) => void;
+  onNoteUp: (note: number) => void;
+}
+
+// C1 to C8, the range of a full-size piano minus the outer few keys
+const LOWEST_NOTE = 24;
+const HIGHEST_NOTE = 108;
+
+const WHITE_NOTES = Array.from(
+  { length: HIGHEST_NOTE - LOWEST_NOTE + 1 },
+  (_, i) => LOWEST_NOTE + i
+).filter(note => !isBlackKey(note));
+
+const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
+  activeNotes,
+  keyHints,
+  focusNote,
+  onNoteDown,
+  onNoteUp,
+}) => {
+  const keyRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+
+  // Scroll the playable octave into the middle of the keyboard
+  useEffect(() => {
+    keyRefs.current.get(focusNote)?.scrollIntoView({
+      behavior: 'smooth',
+      block: 'nearest',
+      inline: 'center',
+    });
+  }, [focusNote]);
+
+  const renderKey = (note: number, black: boolean) => (
+    <div
+      key={note}
+      ref={element => {
+        if (element) keyRefs.current.set(note, element);
+        else keyRefs.current.delete(note);
+      }}
+      title={noteName(note)}
+      className={`${black ? 'key-black' : 'key'} ${activeNotes.has(note) ? 'active' : ''}`}
+      onMouseDown={() => onNoteDown(note)}
+      onMouseUp={() => onNoteUp(note)}
+      onMouseLeave={() => {
+        if (activeNotes.has(note)) {
+          onNoteUp(note);
+        }
+      }}
+    >
+      {keyHints.has(note) && <span className="key-hint">{keyHints.get(note)}</span>}
+      {!black && note % 12 === 0 && <span className="key-label">{noteName(note)}</span>}
+    </div>
+  );
+
+  return (
+    <div className="max-w-[90vw] overflow-x-auto">
+      <div className="flex">
+        {WHITE_NOTES.map(note => (
+          <div key={note} className="relative">
+            {renderKey(note, false)}
+            {note + 1 <= HIGHEST_NOTE && isBlackKey(note + 1) && renderKey(note + 1, true)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PianoKeyboard;
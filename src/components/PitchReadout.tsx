@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { noteName } from '@/lib/audio/notes';
+import type { FrameSource } from '@/lib/frameSource';
+import { pitchClassColor } from '@/lib/visualizers/palette';
+
+interface PitchReadoutProps {
+  frameSource: FrameSource;
+}
+
+interface Reading {
+  note: number;
+  cents: number;
+  frequency: number;
+  pitchClass: number;
+}
+
+// Frames arrive at display rate; the readout only needs to be legible
+const UPDATE_INTERVAL = 100;
+// Keep showing the last note through short gaps, such as breaths between words
+const HOLD_TIME = 400;
+// Within this many cents counts as in tune
+const IN_TUNE = 10;
+
+const PitchReadout: React.FC<PitchReadoutProps> = ({ frameSource }) => {
+  const [reading, setReading] = useState<Reading | null>(null);
+
+  useEffect(() => frameSource.requestPitch(), [frameSource]);
+
+  useEffect(() => {
+    let lastUpdate = 0;
+    let lastDetected = 0;
+
+    return frameSource.subscribe(({ pitch }) => {
+      const now = performance.now();
+      if (pitch.detected) lastDetected = now;
+      if (now - lastUpdate < UPDATE_INTERVAL) return;
+      lastUpdate = now;
+
+      if (pitch.detected) {
+        const { note, cents, frequency, pitchClass } = pitch;
+        setReading({ note, cents, frequency, pitchClass });
+      } else if (now - lastDetected > HOLD_TIME) {
+        setReading(null);
+      }
+    });
+  }, [frameSource]);
+
+  const inTune = reading && Math.abs(reading.cents) <= IN_TUNE;
+
+  return (
+    <div className="mt-3 flex items-center gap-3 text-white">
+      <span
+        className="text-2xl font-bold tabular-nums w-14"
+        style={{ color: reading ? pitchClassColor(reading.pitchClass) : undefined }}
+      >
+        {reading ? noteName(reading.note) : '—'}
+      </span>
+      <div className="flex-1">
+        {/* Intonation meter: centre is the note, edges are a quarter tone off */}
+        <div className="relative h-2 rounded-full bg-black/40">
+          <div className="absolute left-1/2 top-0 h-2 w-px bg-gray-400" />
+          {reading && (
+            <div
+              className={`absolute top-0 h-2 w-2 -ml-1 rounded-full ${inTune ? 'bg-green-400' : 'bg-visualizer-accent2'}`}
+              style={{ left: `${50 + reading.cents}%` }}
+            />
+          )}
+        </div>
+        <div className="flex justify-between text-xs text-gray-400 tabular-nums mt-1">
+          <span>{reading ? `${reading.cents > 0 ? '+' : ''}${reading.cents}¢` : 'Sing or play a note'}</span>
+          <span>{reading ? `${reading.frequency.toFixed(1)} Hz` : ''}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PitchReadout;
@@ -0,0 +1,193 @@
+import { useRef, useState } from 'react';
+import { Circle, Download, Layers, Play, Square, Target, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import type { WavBitDepth } from '@/lib/audio/wav';
+import { downloadBlob, timestampedFilename } from '@/lib/download';
+import { writeMidiFile } from '@/lib/midi/smf';
+import type { Recorder, RecorderState } from '@/lib/recording/recorder';
+import type { Take } from '@/lib/recording/take';
+
+interface RecorderControlsProps {
+  recorder: Recorder;
+  state: RecorderState;
+  take: Take;
+  onImportMidi: (file: File) => void;
+  onBounce: (bitDepth: WavBitDepth) => Promise<void>;
+}
+
+const STATE_LABELS: Record<RecorderState, string> = {
+  idle: 'Stopped',
+  armed: 'Armed — play a note to start',
+  recording: 'Recording',
+  playing: 'Playing',
+  overdubbing: 'Overdubbing',
+};
+
+const RecorderControls: React.FC<RecorderControlsProps> = ({ recorder, state, take, onImportMidi, onBounce }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [midiFormat, setMidiFormat] = useState<'0' | '1'>('1');
+  const [bitDepth, setBitDepth] = useState<WavBitDepth>(16);
+  const [bouncing, setBouncing] = useState(false);
+  const hasTake = take.events.length > 0;
+  const noteCount = take.events.filter(event => event.type === 'noteOn').length;
+  const handleExport = () => {
+    try {
+      const bytes = writeMidiFile(take, { format: midiFormat === '0' ? 0 : 1 });
+      downloadBlob(new Blob([bytes], { type: 'audio/midi' }), timestampedFilename('mid'));
+    } catch (error) {
+      console.warn('Could not write MIDI file:', error);
+      toast({
+        variant: 'destructive',
+        title: 'MIDI export failed',
+        description: error instanceof Error ? error.message : 'The take could not be written as MIDI.',
+      });
+    }
+  };
+
+  const handleBounce = async () => {
+    setBouncing(true);
+    try {
+      await onBounce(bitDepth);
+    } finally {
+      setBouncing(false);
+    }
+  };
+
+  const buttonClass = (active: boolean) =>
+    active
+      ? 'bg-visualizer-primary hover:bg-visualizer-secondary text-white'
+      : 'bg-black/40 hover:bg-black/60 text-white';
+
+  return (
+    <div className="space-y-2 text-white">
+      <div className="flex gap-1">
+        <Button
+          variant="outline"
+          size="icon"
+          title="Arm"
+          className={buttonClass(state === 'armed')}
+          onClick={recorder.arm}
+        >
+          <Target size={16} />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          title="Record"
+          className={buttonClass(state === 'recording')}
+          onClick={recorder.record}
+        >
+          <Circle size={16} className="text-red-500" />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          title="Stop"
+          className={buttonClass(false)}
+          onClick={recorder.stop}
+        >
+          <Square size={16} />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          title="Play"
+          disabled={!hasTake}
+          className={buttonClass(state === 'playing')}
+          onClick={recorder.play}
+        >
+          <Play size={16} />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          title="Overdub"
+          disabled={!hasTake}
+          className={buttonClass(state === 'overdubbing')}
+          onClick={recorder.overdub}
+        >
+          <Layers size={16} />
+        </Button>
+      </div>
+      <p className="text-xs text-gray-300">
+        {STATE_LABELS[state]}
+        {hasTake && ` · ${noteCount} notes, ${take.duration.toFixed(1)}s`}
+      </p>
+      <div className="flex gap-1">
+        <Select value={midiFormat} onValueChange={(value) => setMidiFormat(value as '0' | '1')}>
+          <SelectTrigger className="h-8 w-24 bg-black/40 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="0">Type 0</SelectItem>
+            <SelectItem value="1">Type 1</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          title="Export as .mid"
+          disabled={!hasTake}
+          className={`h-8 ${buttonClass(false)}`}
+          onClick={handleExport}
+        >
+          <Download size={14} />
+          .mid
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          title="Import a .mid file"
+          className={`h-8 ${buttonClass(false)}`}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload size={14} />
+          Import
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".mid,.midi,audio/midi"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportMidi(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      <div className="flex gap-1">
+        <Select value={String(bitDepth)} onValueChange={(value) => setBitDepth(Number(value) as WavBitDepth)}>
+          <SelectTrigger className="h-8 w-24 bg-black/40 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="16">16-bit</SelectItem>
+            <SelectItem value="24">24-bit</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          title="Render the take to a WAV file"
+          disabled={!hasTake || bouncing}
+          className={`h-8 ${buttonClass(false)}`}
+          onClick={handleBounce}
+        >
+          <Download size={14} />
+          {bouncing ? 'Rendering…' : '.wav'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RecorderControls;
@@ -0,0 +1,36 @@
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AUDIO_SOURCES, type AudioSource } from '@/lib/audio/input';
+
+interface SourceControlsProps {
+  source: AudioSource;
+  onChangeSource: (source: AudioSource) => void;
+}
+
+const SourceControls: React.FC<SourceControlsProps> = ({ source, onChangeSource }) => {
+  return (
+    <div className="space-y-1 text-white">
+      <Label className="text-xs text-gray-300">Analyse</Label>
+      <Select value={source} onValueChange={(value) => onChangeSource(value as AudioSource)}>
+        <SelectTrigger className="h-8 bg-black/40 text-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {AUDIO_SOURCES.map((option) => (
+            <SelectItem key={option.id} value={option.id}>
+              {option.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default SourceControls;
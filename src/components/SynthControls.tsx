@@ -0,0 +1,277 @@
+import { useRef } from 'react';
+import { Download, Upload } from 'lucide-react';
+import EnvelopeControls from '@/components/EnvelopeControls';
+import HarmonicsControls from '@/components/HarmonicsControls';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  CUTOFF_RANGE,
+  DETUNE_RANGE,
+  ENVELOPE_AMOUNT_RANGE,
+  FILTER_TYPES,
+  MAX_VOICES_RANGE,
+  OCTAVE_RANGE,
+  RESONANCE_RANGE,
+  STEAL_POLICIES,
+  WAVEFORMS,
+  type FilterSettings,
+  type FilterType,
+  type OscillatorSettings,
+  type StealPolicy,
+  type SynthPatch,
+  type VoiceMode,
+  type Voicing,
+  type Waveform,
+} from '@/lib/audio/patch';
+import { writePatchFile } from '@/lib/audio/patchFile';
+import { downloadBlob, timestampedFilename } from '@/lib/download';
+
+interface SynthControlsProps {
+  patch: SynthPatch;
+  onChangePatch: (patch: SynthPatch) => void;
+  onImportPatch: (file: File) => void;
+}
+
+// Cutoff sliders move in pitch, not Hz, so each octave gets the same travel
+const CUTOFF_OCTAVES = Math.log2(CUTOFF_RANGE.max / CUTOFF_RANGE.min);
+const cutoffToSlider = (cutoff: number) => Math.log2(cutoff / CUTOFF_RANGE.min) / CUTOFF_OCTAVES;
+const sliderToCutoff = (position: number) => Math.round(CUTOFF_RANGE.min * Math.pow(2, position * CUTOFF_OCTAVES));
+const formatFrequency = (hz: number) => (hz >= 1000 ? `${(hz / 1000).toFixed(1)} kHz` : `${hz} Hz`);
+
+const OSCILLATOR_SLIDERS: { id: keyof Omit<OscillatorSettings, 'waveform'>; name: string; min: number; max: number; step: number; format: (value: number) => string }[] = [
+  { id: 'level', name: 'Level', min: 0, max: 1, step: 0.01, format: (value) => `${Math.round(value * 100)}%` },
+  { id: 'octave', name: 'Octave', ...OCTAVE_RANGE, step: 1, format: (value) => (value > 0 ? `+${value}` : `${value}`) },
+  { id: 'detune', name: 'Detune', ...DETUNE_RANGE, step: 1, format: (value) => `${value}¢` },
+];
+
+const FILTER_SLIDERS: { id: 'resonance' | 'keyTracking' | 'envelopeAmount'; name: string; min: number; max: number; step: number; format: (value: number) => string }[] = [
+  { id: 'resonance', name: 'Resonance', ...RESONANCE_RANGE, step: 0.1, format: (value) => value.toFixed(1) },
+  { id: 'keyTracking', name: 'Key tracking', min: 0, max: 1, step: 0.01, format: (value) => `${Math.round(value * 100)}%` },
+  { id: 'envelopeAmount', name: 'Envelope amount', ...ENVELOPE_AMOUNT_RANGE, step: 0.1, format: (value) => `${value > 0 ? '+' : ''}${value.toFixed(1)} oct` },
+];
+
+const SynthControls: React.FC<SynthControlsProps> = ({ patch, onChangePatch, onImportPatch }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateOscillator = (index: number, changes: Partial<OscillatorSettings>) => {
+    onChangePatch({
+      ...patch,
+      oscillators: patch.oscillators.map((oscillator, i) => (i === index ? { ...oscillator, ...changes } : oscillator)),
+    });
+  };
+
+  const updateFilter = (changes: Partial<FilterSettings>) => {
+    onChangePatch({ ...patch, filter: { ...patch.filter, ...changes } });
+  };
+
+  const updateVoicing = (changes: Partial<Voicing>) => {
+    onChangePatch({ ...patch, voicing: { ...patch.voicing, ...changes } });
+  };
+
+  const handleSave = () => {
+    downloadBlob(new Blob([writePatchFile(patch)], { type: 'application/json' }), timestampedFilename('json'));
+  };
+
+  return (
+    <div className="flex flex-col space-y-3 text-white">
+      <div className="flex gap-1">
+        <Button
+          variant="outline"
+          size="sm"
+          title="Save the patch as JSON"
+          className="h-8 bg-black/40 hover:bg-black/60 text-white"
+          onClick={handleSave}
+        >
+          <Download size={14} />
+          Save
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          title="Load a patch from JSON"
+          className="h-8 bg-black/40 hover:bg-black/60 text-white"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload size={14} />
+          Load
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportPatch(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {patch.oscillators.map((oscillator, index) => (
+        <div key={index} className="space-y-2">
+          <h3 className="text-xs font-semibold text-gray-200">Oscillator {index + 1}</h3>
+          <Select
+            value={oscillator.waveform}
+            onValueChange={(value) => updateOscillator(index, { waveform: value as Waveform })}
+          >
+            <SelectTrigger className="h-8 bg-black/40 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WAVEFORMS.map((waveform) => (
+                <SelectItem key={waveform.id} value={waveform.id}>
+                  {waveform.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {OSCILLATOR_SLIDERS.map((slider) => (
+            <div key={slider.id} className="space-y-1">
+              <div className="flex justify-between text-xs text-gray-300">
+                <Label className="text-xs">{slider.name}</Label>
+                <span>{slider.format(oscillator[slider.id])}</span>
+              </div>
+              <Slider
+                min={slider.min}
+                max={slider.max}
+                step={slider.step}
+                value={[oscillator[slider.id]]}
+                onValueChange={([value]) => updateOscillator(index, { [slider.id]: value })}
+              />
+            </div>
+          ))}
+        </div>
+      ))}
+
+      {/* Every custom oscillator shares one set of partials */}
+      {patch.oscillators.some(oscillator => oscillator.waveform === 'custom') && (
+        <>
+          <h3 className="text-xs font-semibold text-gray-200">Custom waveform</h3>
+          <HarmonicsControls
+            harmonics={patch.harmonics}
+            onChangeHarmonics={(harmonics) => onChangePatch({ ...patch, harmonics })}
+          />
+        </>
+      )}
+
+      <h3 className="text-xs font-semibold text-gray-200">Filter</h3>
+      <Select
+        value={patch.filter.type}
+        onValueChange={(value) => updateFilter({ type: value as FilterType })}
+      >
+        <SelectTrigger className="h-8 bg-black/40 text-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {FILTER_TYPES.map((type) => (
+            <SelectItem key={type.id} value={type.id}>
+              {type.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="space-y-1">
+        <div className="flex justify-between text-xs text-gray-300">
+          <Label className="text-xs">Cutoff</Label>
+          <span>{formatFrequency(patch.filter.cutoff)}</span>
+        </div>
+        <Slider
+          min={0}
+          max={1}
+          step={0.001}
+          value={[cutoffToSlider(patch.filter.cutoff)]}
+          onValueChange={([value]) => updateFilter({ cutoff: sliderToCutoff(value) })}
+        />
+      </div>
+      {FILTER_SLIDERS.map((slider) => (
+        <div key={slider.id} className="space-y-1">
+          <div className="flex justify-between text-xs text-gray-300">
+            <Label className="text-xs">{slider.name}</Label>
+            <span>{slider.format(patch.filter[slider.id])}</span>
+          </div>
+          <Slider
+            min={slider.min}
+            max={slider.max}
+            step={slider.step}
+            value={[patch.filter[slider.id]]}
+            onValueChange={([value]) => updateFilter({ [slider.id]: value })}
+          />
+        </div>
+      ))}
+
+      <h3 className="text-xs font-semibold text-gray-200">Filter envelope</h3>
+      <EnvelopeControls
+        envelope={patch.filter.envelope}
+        onChangeEnvelope={(envelope) => updateFilter({ envelope })}
+      />
+
+      <h3 className="text-xs font-semibold text-gray-200">Amp envelope</h3>
+      <EnvelopeControls
+        envelope={patch.envelope}
+        onChangeEnvelope={(envelope) => onChangePatch({ ...patch, envelope })}
+        showCurve
+      />
+
+      <h3 className="text-xs font-semibold text-gray-200">Voices</h3>
+      <div className="space-y-1">
+        <div className="flex justify-between text-xs text-gray-300">
+          <Label className="text-xs">Polyphony</Label>
+          <span>{patch.voicing.maxVoices}</span>
+        </div>
+        <Slider
+          min={MAX_VOICES_RANGE.min}
+          max={MAX_VOICES_RANGE.max}
+          step={1}
+          value={[patch.voicing.maxVoices]}
+          onValueChange={([value]) => updateVoicing({ maxVoices: value })}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-300">Voice stealing</Label>
+        <Select
+          value={patch.voicing.steal}
+          onValueChange={(value) => updateVoicing({ steal: value as StealPolicy })}
+        >
+          <SelectTrigger className="h-8 bg-black/40 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {STEAL_POLICIES.map((policy) => (
+              <SelectItem key={policy.id} value={policy.id}>
+                {policy.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-300">Note mode</Label>
+        <Select
+          value={patch.voicing.mode}
+          onValueChange={(value) => updateVoicing({ mode: value as VoiceMode })}
+        >
+          <SelectTrigger className="h-8 bg-black/40 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="retrigger">Retrigger</SelectItem>
+            <SelectItem value="legato">Legato</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
+
+export default SynthControls;
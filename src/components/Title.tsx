@@ -1,7 +1,15 @@
 
 import React from 'react';
+import PitchReadout from '@/components/PitchReadout';
+import type { FrameSource } from '@/lib/frameSource';
 
-const Title: React.FC = () => {
+interface TitleProps {
+  frameSource: FrameSource;
+  // The readout is for singers and players, so it only shows with live input
+  showPitch: boolean;
+}
+
+const Title: React.FC<TitleProps> = ({ frameSource, showPitch }) => {
   return (
     <div className="fixed top-4 left-4 z-10">
       <div className="bg-black/60 backdrop-blur-md p-4 rounded-xl">
@@ -9,8 +17,12 @@ const Title: React.FC = () => {
           Musical Canvas
         </h1>
         <p className="text-sm text-gray-300 mt-1">
-          Press keys A-L to play notes
+          Play with A–' and W–P, Z/X to change octave, C/V to transpose
+        </p>
+        <p className="text-sm text-gray-400">
+          Drop an audio file to jam along with it
         </p>
+        {showPitch && <PitchReadout frameSource={frameSource} />}
       </div>
     </div>
   );
@@ -0,0 +1,116 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Pause, Play, Repeat, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { computePeaks, type TrackPlayer } from '@/lib/audio/trackPlayer';
+
+interface TransportBarProps {
+  player: TrackPlayer;
+  title: string;
+  onClose: () => void;
+}
+
+const OVERVIEW_WIDTH = 480;
+const OVERVIEW_HEIGHT = 40;
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.floor(seconds % 60);
+  return `${minutes}:${rest.toString().padStart(2, '0')}`;
+};
+
+const TransportBar: React.FC<TransportBarProps> = ({ player, title, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [playing, setPlaying] = useState(player.isPlaying());
+  const [loop, setLoop] = useState(player.isLooping());
+  const [position, setPosition] = useState(player.getPosition());
+  const peaks = useMemo(() => computePeaks(player.buffer, OVERVIEW_WIDTH), [player]);
+
+  useEffect(() => {
+    return player.subscribe(() => {
+      setPlaying(player.isPlaying());
+      setLoop(player.isLooping());
+      setPosition(player.getPosition());
+    });
+  }, [player]);
+
+  // Follow the playhead only while the track is running
+  useEffect(() => {
+    if (!playing) return;
+    let frameId: number;
+    const tick = () => {
+      setPosition(player.getPosition());
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [player, playing]);
+
+  // Draw the waveform overview with the played part highlighted
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const playedX = (position / player.duration) * OVERVIEW_WIDTH;
+    const middle = OVERVIEW_HEIGHT / 2;
+    ctx.clearRect(0, 0, OVERVIEW_WIDTH, OVERVIEW_HEIGHT);
+
+    for (let x = 0; x < peaks.length; x++) {
+      const height = Math.max(1, peaks[x] * OVERVIEW_HEIGHT);
+      ctx.fillStyle = x < playedX ? '#9b87f5' : 'rgba(214, 188, 250, 0.35)';
+      ctx.fillRect(x, middle - height / 2, 1, height);
+    }
+
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(playedX, 0, 1, OVERVIEW_HEIGHT);
+  }, [peaks, position, player]);
+
+  const handleSeek = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = (e.clientX - rect.left) / rect.width;
+    player.seek(fraction * player.duration);
+  };
+
+  return (
+    <div className="bg-black/60 backdrop-blur-md px-4 py-2 rounded-xl mb-2 flex items-center gap-3 text-white">
+      <Button
+        variant="outline"
+        size="icon"
+        className="bg-black/40 hover:bg-black/60 text-white"
+        onClick={() => (playing ? player.pause() : player.play())}
+      >
+        {playing ? <Pause size={16} /> : <Play size={16} />}
+      </Button>
+      <div className="flex flex-col">
+        <span className="text-xs text-gray-300 truncate max-w-[480px]">{title}</span>
+        <canvas
+          ref={canvasRef}
+          width={OVERVIEW_WIDTH}
+          height={OVERVIEW_HEIGHT}
+          className="cursor-pointer"
+          onMouseDown={handleSeek}
+        />
+      </div>
+      <span className="text-xs tabular-nums text-gray-300">
+        {formatTime(position)} / {formatTime(player.duration)}
+      </span>
+      <Button
+        variant="outline"
+        size="icon"
+        className={loop ? 'bg-visualizer-primary hover:bg-visualizer-secondary text-white' : 'bg-black/40 hover:bg-black/60 text-white'}
+        onClick={() => player.setLoop(!loop)}
+      >
+        <Repeat size={16} />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="text-white hover:bg-black/60"
+        onClick={onClose}
+      >
+        <X size={16} />
+      </Button>
+    </div>
+  );
+};
+
+export default TransportBar;
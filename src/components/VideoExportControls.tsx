@@ -0,0 +1,146 @@
+import { useEffect, useRef, useState } from 'react';
+import { Square, Video } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { AudioTap } from '@/components/AudioEngine';
+import { toast } from '@/hooks/use-toast';
+import { downloadBlob, timestampedFilename } from '@/lib/download';
+import {
+  VIDEO_FRAME_RATES,
+  VIDEO_RESOLUTIONS,
+  isVideoCaptureSupported,
+  startVideoCapture,
+  type VideoCapture,
+} from '@/lib/recording/videoCapture';
+
+interface VideoExportControlsProps {
+  getCanvas: () => HTMLCanvasElement | null;
+  createAudioTap: () => AudioTap | null;
+}
+
+const VideoExportControls: React.FC<VideoExportControlsProps> = ({ getCanvas, createAudioTap }) => {
+  const [resolutionId, setResolutionId] = useState(VIDEO_RESOLUTIONS[0].id);
+  const [frameRate, setFrameRate] = useState(30);
+  const [recordingSince, setRecordingSince] = useState<number | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const captureRef = useRef<{ capture: VideoCapture; tap: AudioTap | null } | null>(null);
+
+  // Tick the elapsed time display while recording
+  useEffect(() => {
+    if (recordingSince === null) return;
+    const interval = setInterval(() => setElapsed((Date.now() - recordingSince) / 1000), 250);
+    return () => clearInterval(interval);
+  }, [recordingSince]);
+
+  // Stop cleanly if the panel goes away mid-recording
+  useEffect(() => () => {
+    captureRef.current?.capture.stop();
+    captureRef.current?.tap?.dispose();
+  }, []);
+
+  if (!isVideoCaptureSupported()) {
+    return <p className="text-xs text-gray-400">Video recording is not available in this browser</p>;
+  }
+
+  const startRecording = () => {
+    const canvas = getCanvas();
+    const resolution = VIDEO_RESOLUTIONS.find(option => option.id === resolutionId) ?? VIDEO_RESOLUTIONS[0];
+    if (!canvas) return;
+
+    const tap = createAudioTap();
+    try {
+      const capture = startVideoCapture(canvas, {
+        width: resolution.width,
+        height: resolution.height,
+        frameRate,
+        audio: tap?.stream,
+      });
+      captureRef.current = { capture, tap };
+      setElapsed(0);
+      setRecordingSince(Date.now());
+    } catch (error) {
+      tap?.dispose();
+      console.warn('Video capture failed:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Video recording failed',
+        description: error instanceof Error ? error.message : 'The recording could not be started.',
+      });
+    }
+  };
+
+  const stopRecording = async () => {
+    const current = captureRef.current;
+    if (!current) return;
+    captureRef.current = null;
+    setRecordingSince(null);
+
+    const blob = await current.capture.stop();
+    current.tap?.dispose();
+    downloadBlob(blob, timestampedFilename('webm'));
+  };
+
+  const isRecording = recordingSince !== null;
+
+  return (
+    <div className="space-y-2 text-white">
+      <div className="flex gap-2">
+        <div className="flex-1 space-y-1">
+          <Label className="text-xs text-gray-300">Resolution</Label>
+          <Select value={resolutionId} onValueChange={setResolutionId} disabled={isRecording}>
+            <SelectTrigger className="h-8 bg-black/40 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {VIDEO_RESOLUTIONS.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="w-20 space-y-1">
+          <Label className="text-xs text-gray-300">FPS</Label>
+          <Select
+            value={String(frameRate)}
+            onValueChange={(value) => setFrameRate(Number(value))}
+            disabled={isRecording}
+          >
+            <SelectTrigger className="h-8 bg-black/40 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {VIDEO_FRAME_RATES.map((rate) => (
+                <SelectItem key={rate} value={String(rate)}>
+                  {rate}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <Button
+        variant="outline"
+        className={`w-full flex items-center justify-start gap-2 ${
+          isRecording
+            ? 'bg-red-600 hover:bg-red-700 text-white'
+            : 'bg-black/40 hover:bg-black/60 text-white'
+        }`}
+        onClick={isRecording ? stopRecording : startRecording}
+      >
+        {isRecording ? <Square size={16} /> : <Video size={16} />}
+        {isRecording ? `Stop (${elapsed.toFixed(0)}s)` : 'Record Video'}
+      </Button>
+    </div>
+  );
+};
+
+export default VideoExportControls;
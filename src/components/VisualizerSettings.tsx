@@ -0,0 +1,88 @@
+import { useMemo } from 'react';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  describeSettings,
+  resolveSettings,
+  type VisualizerPlugin,
+  type VisualizerSettingsValues,
+} from '@/lib/visualizers';
+
+interface VisualizerSettingsProps {
+  plugin: VisualizerPlugin;
+  values: VisualizerSettingsValues;
+  onChange: (key: string, value: unknown) => void;
+}
+
+// Controls generated from the plugin's settings schema
+const VisualizerSettings: React.FC<VisualizerSettingsProps> = ({ plugin, values, onChange }) => {
+  const controls = useMemo(() => describeSettings(plugin.settings), [plugin]);
+  const resolved = useMemo(() => resolveSettings(plugin.settings, values), [plugin, values]);
+
+  if (controls.length === 0) return null;
+
+  return (
+    <div className="flex flex-col space-y-3 text-white">
+      {controls.map((control) => {
+        const value = resolved[control.key];
+
+        switch (control.kind) {
+          case 'slider':
+            return (
+              <div key={control.key} className="space-y-1">
+                <div className="flex justify-between text-xs text-gray-300">
+                  <Label className="text-xs">{control.label}</Label>
+                  <span>{Number(value).toFixed(control.step < 1 ? 2 : 0)}</span>
+                </div>
+                <Slider
+                  min={control.min}
+                  max={control.max}
+                  step={control.step}
+                  value={[Number(value)]}
+                  onValueChange={([next]) => onChange(control.key, next)}
+                />
+              </div>
+            );
+          case 'switch':
+            return (
+              <div key={control.key} className="flex items-center justify-between">
+                <Label className="text-xs text-gray-300">{control.label}</Label>
+                <Switch
+                  checked={Boolean(value)}
+                  onCheckedChange={(checked) => onChange(control.key, checked)}
+                />
+              </div>
+            );
+          case 'select':
+            return (
+              <div key={control.key} className="space-y-1">
+                <Label className="text-xs text-gray-300">{control.label}</Label>
+                <Select value={String(value)} onValueChange={(next) => onChange(control.key, next)}>
+                  <SelectTrigger className="h-8 bg-black/40 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {control.options.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+        }
+      })}
+    </div>
+  );
+};
+
+export default VisualizerSettings;
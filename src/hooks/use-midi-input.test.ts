@@ -0,0 +1,70 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import type { MidiInputHandlers } from '@/lib/midi/input';
+import { FakeMidiAccess, FakeMidiInput } from '@/test/fakeMidi';
+import { useMidiInput } from './use-midi-input';
+
+const handlers: MidiInputHandlers = {
+  onNoteOn: vi.fn(),
+  onNoteOff: vi.fn(),
+  onSustain: vi.fn(),
+  onPitchBend: vi.fn(),
+};
+
+describe('useMidiInput', () => {
+  it('reports unsupported without a way to request access', () => {
+    const { result } = renderHook(() => useMidiInput(handlers, null));
+    expect(result.current.status).toBe('unsupported');
+    expect(result.current.devices).toEqual([]);
+  });
+
+  it('reports a denied permission', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const requestAccess = () => Promise.reject(new DOMException('Denied', 'SecurityError'));
+    const { result } = renderHook(() => useMidiInput(handlers, requestAccess));
+
+    expect(result.current.status).toBe('pending');
+    await waitFor(() => expect(result.current.status).toBe('denied'));
+  });
+
+  it('lists devices and follows hot-plugging', async () => {
+    const access = new FakeMidiAccess([new FakeMidiInput('a', 'Keys')]);
+    const requestAccess = () => Promise.resolve(access.asAccess());
+    const { result } = renderHook(() => useMidiInput(handlers, requestAccess));
+
+    await waitFor(() => expect(result.current.status).toBe('granted'));
+    expect(result.current.devices).toEqual([{ id: 'a', name: 'Keys' }]);
+
+    act(() => access.plug(new FakeMidiInput('b', 'Pads')));
+    expect(result.current.devices.map(device => device.id)).toEqual(['a', 'b']);
+
+    act(() => access.unplug('a'));
+    expect(result.current.devices.map(device => device.id)).toEqual(['b']);
+  });
+
+  it('plays a device plugged in after access was granted', async () => {
+    const access = new FakeMidiAccess();
+    const onNoteOn = vi.fn();
+    const requestAccess = () => Promise.resolve(access.asAccess());
+    const { result } = renderHook(() => useMidiInput({ ...handlers, onNoteOn }, requestAccess));
+    await waitFor(() => expect(result.current.status).toBe('granted'));
+
+    const keys = new FakeMidiInput('a', 'Keys');
+    act(() => access.plug(keys));
+    keys.send([0x90, 60, 127]);
+    expect(onNoteOn).toHaveBeenCalledWith(60, 1);
+  });
+
+  it('stops listening when switched off', async () => {
+    const keys = new FakeMidiInput('a', 'Keys');
+    const onNoteOn = vi.fn();
+    const requestAccess = () => Promise.resolve(new FakeMidiAccess([keys]).asAccess());
+    const { result } = renderHook(() => useMidiInput({ ...handlers, onNoteOn }, requestAccess));
+    await waitFor(() => expect(result.current.status).toBe('granted'));
+
+    act(() => result.current.selectInput('off'));
+    keys.send([0x90, 60, 127]);
+    expect(onNoteOn).not.toHaveBeenCalled();
+  });
+});
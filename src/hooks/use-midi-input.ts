@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  connectMidiInputs,
+  listMidiInputs,
+  type MidiDevice,
+  type MidiInputHandlers,
+} from '@/lib/midi/input';
+
+export type MidiInputSelection = string | 'all' | 'off';
+
+// Where the browser's permission prompt stands
+export type MidiAccessStatus = 'unsupported' | 'pending' | 'granted' | 'denied';
+
+// Injectable so tests and previews can hand in a fake MIDIAccess
+export type RequestMidiAccess = () => Promise<MIDIAccess>;
+
+const defaultRequestAccess: RequestMidiAccess | null =
+  typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator
+    ? () => navigator.requestMIDIAccess()
+    : null;
+
+export function useMidiInput(
+  handlers: MidiInputHandlers,
+  requestAccess: RequestMidiAccess | null = defaultRequestAccess
+) {
+  const [access, setAccess] = useState<MIDIAccess | null>(null);
+  const [status, setStatus] = useState<MidiAccessStatus>(requestAccess ? 'pending' : 'unsupported');
+  const [devices, setDevices] = useState<MidiDevice[]>([]);
+  const [selectedInput, setSelectedInput] = useState<MidiInputSelection>('all');
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  // Ask for access once and keep the device list in sync with hot-plugging
+  useEffect(() => {
+    if (!requestAccess) return;
+
+    let cancelled = false;
+    let midiAccess: MIDIAccess | null = null;
+    const handleStateChange = () => {
+      if (midiAccess) setDevices(listMidiInputs(midiAccess));
+    };
+
+    requestAccess()
+      .then((result) => {
+        if (cancelled) return;
+        midiAccess = result;
+        setAccess(result);
+        setStatus('granted');
+        setDevices(listMidiInputs(result));
+        result.addEventListener('statechange', handleStateChange);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.warn('MIDI access unavailable:', error);
+        setStatus('denied');
+      });
+
+    return () => {
+      cancelled = true;
+      midiAccess?.removeEventListener('statechange', handleStateChange);
+    };
+  }, [requestAccess]);
+
+  // Reconnect whenever the selection or the set of devices changes
+  useEffect(() => {
+    if (!access || selectedInput === 'off') return;
+    return connectMidiInputs(access, selectedInput, () => handlersRef.current);
+  }, [access, devices, selectedInput]);
+
+  return {
+    status,
+    devices,
+    selectedInput,
+    selectInput: setSelectedInput,
+  };
+}
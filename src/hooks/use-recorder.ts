@@ -0,0 +1,30 @@
+import { useEffect, useMemo, useReducer, type RefObject } from 'react';
+import type { AudioEngineHandle } from '@/components/AudioEngine';
+import { createRecorder } from '@/lib/recording/recorder';
+
+// A recorder bound to the engine: it timestamps against the engine's audio
+// clock and plays takes back through the engine's own note path
+export function useRecorder(engineRef: RefObject<AudioEngineHandle>) {
+  const [, forceUpdate] = useReducer((count: number) => count + 1, 0);
+
+  const recorder = useMemo(() => createRecorder({
+    now: () => engineRef.current?.currentTime() ?? 0,
+    playEvent: (event, time) => {
+      if (event.type === 'noteOn') {
+        engineRef.current?.noteOn(event.note, event.velocity, time);
+      } else {
+        engineRef.current?.noteOff(event.note, time);
+      }
+    },
+    onChange: forceUpdate,
+  }), [engineRef]);
+
+  // Don't leave the playback scheduler running after unmount
+  useEffect(() => () => recorder.stop(), [recorder]);
+
+  return {
+    recorder,
+    state: recorder.getState(),
+    take: recorder.getTake(),
+  };
+}
@@ -0,0 +1,194 @@
+import type { AnalyserFrame } from '@/lib/frameSource';
+import { createBeatDetector, NO_BEAT } from './beat';
+import { createPitchDetector, NO_PITCH } from './pitch';
+
+export type AnalyserOutput = 'byte' | 'float';
+
+export interface AnalyserSettings {
+  fftSize: number;
+  smoothing: number;
+  minDecibels: number;
+  maxDecibels: number;
+  // Byte data is quantised to 256 steps; float keeps the analyser's full
+  // precision and isn't clipped at maxDecibels
+  output: AnalyserOutput;
+  gain: number;
+}
+
+export const FFT_SIZES = [32, 64, 128, 256, 512, 1024, 2048, 4096, 8192, 16384, 32768];
+
+// Slider ranges keep minDecibels below maxDecibels, which the analyser requires
+export const MIN_DECIBELS_RANGE = { min: -140, max: -60 };
+export const MAX_DECIBELS_RANGE = { min: -50, max: 0 };
+
+// The only gain stage between the analyser and the visualizers. The analyser
+// maps [minDecibels, maxDecibels] to 0..1; `gain` then scales that linearly,
+// and byte data is clipped to 255. 3.75 keeps the look of the old fixed
+// boosts (1.5x in the engine times 2.5x in each visualizer).
+// 2048 points (~21 Hz bins at 44.1 kHz) is about the smallest size where
+// neighbouring notes around middle C land in different semitone bands.
+export const DEFAULT_ANALYSER_SETTINGS: AnalyserSettings = {
+  fftSize: 2048,
+  smoothing: 0.8,
+  minDecibels: -100,
+  maxDecibels: -30,
+  output: 'byte',
+  gain: 3.75,
+};
+
+// The side of the graph the visualizers read. Sources connect to `input`;
+// nothing here reaches the speakers.
+//
+//   input -> analyser                         (frequency bins, then beats)
+//         -> splitter -> left / right analysers (time-domain waveforms, then pitch)
+export interface AnalysisGraph {
+  input: GainNode;
+  analyser: AnalyserNode;
+  configure: (settings: AnalyserSettings) => void;
+  // Fill the shared frame with the latest analysis and return it. Pitch is
+  // only tracked when asked for; otherwise the frame reports none.
+  read: (options?: { pitch?: boolean }) => AnalyserFrame;
+  frame: AnalyserFrame;
+  dispose: () => void;
+}
+
+// Samples per waveform frame: ~46 ms at 44.1 kHz, enough for a scope timebase
+// down to the lowest piano notes
+export const WAVEFORM_SIZE = 2048;
+
+// Pitch tracking runs on the waveform at half the sample rate, which still
+// reaches well past the tracker's top note, and about 30 times a second
+// rather than every frame; each halving cuts YIN's work by about four
+export const PITCH_DECIMATION = 2;
+const PITCH_INTERVAL = 1 / 30;  // s
+
+export const createAnalysisGraph = (
+  context: BaseAudioContext,
+  initialSettings: AnalyserSettings = DEFAULT_ANALYSER_SETTINGS
+): AnalysisGraph => {
+  let settings = initialSettings;
+
+  // Force two channels so a mono source shows up on both sides of the split
+  const input = context.createGain();
+  input.channelCount = 2;
+  input.channelCountMode = 'explicit';
+  input.channelInterpretation = 'speakers';
+
+  const analyser = context.createAnalyser();
+  input.connect(analyser);
+
+  const splitter = context.createChannelSplitter(2);
+  input.connect(splitter);
+  const channels = [0, 1].map(channel => {
+    const node = context.createAnalyser();
+    node.fftSize = WAVEFORM_SIZE;
+    splitter.connect(node, channel);
+    return node;
+  });
+
+  const frame: AnalyserFrame = {
+    frequency: new Uint8Array(0),
+    spectrum: new Float32Array(0),
+    waveform: new Float32Array(WAVEFORM_SIZE),
+    left: new Float32Array(WAVEFORM_SIZE),
+    right: new Float32Array(WAVEFORM_SIZE),
+    sampleRate: context.sampleRate,
+    beat: { ...NO_BEAT },
+    pitch: { ...NO_PITCH },
+  };
+  const beatDetector = createBeatDetector();
+  const detectPitch = createPitchDetector();
+  const pitchSamples = new Float32Array(WAVEFORM_SIZE / PITCH_DECIMATION);
+  let lastPitchTime = -Infinity;
+
+  const readPitch = () => {
+    const time = context.currentTime;
+    if (time - lastPitchTime < PITCH_INTERVAL) return;
+    lastPitchTime = time;
+
+    // Averaging each pair is a crude low-pass, but it nulls what would fold
+    // down into the tracker's range
+    for (let i = 0; i < pitchSamples.length; i++) {
+      let sum = 0;
+      for (let j = 0; j < PITCH_DECIMATION; j++) sum += frame.waveform[i * PITCH_DECIMATION + j];
+      pitchSamples[i] = sum / PITCH_DECIMATION;
+    }
+    Object.assign(frame.pitch, detectPitch(pitchSamples, context.sampleRate / PITCH_DECIMATION));
+  };
+
+  // Raw analyser output, before the gain stage
+  let byteBins = new Uint8Array(0);
+  let floatBins = new Float32Array(0);
+
+  const configure = (next: AnalyserSettings) => {
+    settings = next;
+    analyser.fftSize = next.fftSize;
+    analyser.smoothingTimeConstant = next.smoothing;
+    // Set in whichever order keeps min below max at every step
+    if (next.minDecibels >= analyser.maxDecibels) {
+      analyser.maxDecibels = next.maxDecibels;
+      analyser.minDecibels = next.minDecibels;
+    } else {
+      analyser.minDecibels = next.minDecibels;
+      analyser.maxDecibels = next.maxDecibels;
+    }
+
+    const bins = analyser.frequencyBinCount;
+    if (frame.frequency.length !== bins) {
+      frame.frequency = new Uint8Array(bins);
+      frame.spectrum = new Float32Array(bins);
+      byteBins = new Uint8Array(bins);
+      floatBins = new Float32Array(bins);
+    }
+  };
+  configure(initialSettings);
+
+  const readSpectrum = () => {
+    const { gain, output, minDecibels, maxDecibels } = settings;
+
+    if (output === 'float') {
+      analyser.getFloatFrequencyData(floatBins);
+      const range = maxDecibels - minDecibels;
+      for (let i = 0; i < floatBins.length; i++) {
+        // Silence reads as -Infinity, which lands on 0 here
+        frame.spectrum[i] = Math.max(0, (floatBins[i] - minDecibels) / range) * gain;
+      }
+    } else {
+      analyser.getByteFrequencyData(byteBins);
+      for (let i = 0; i < byteBins.length; i++) {
+        frame.spectrum[i] = (byteBins[i] / 255) * gain;
+      }
+    }
+
+    for (let i = 0; i < frame.spectrum.length; i++) {
+      frame.frequency[i] = Math.min(255, Math.round(frame.spectrum[i] * 255));
+    }
+  };
+
+  return {
+    input,
+    analyser,
+    configure,
+    frame,
+    read: ({ pitch = false } = {}) => {
+      readSpectrum();
+      Object.assign(frame.beat, beatDetector.process(frame.spectrum, context.currentTime));
+      channels[0].getFloatTimeDomainData(frame.left);
+      channels[1].getFloatTimeDomainData(frame.right);
+      for (let i = 0; i < WAVEFORM_SIZE; i++) {
+        frame.waveform[i] = (frame.left[i] + frame.right[i]) / 2;
+      }
+      if (pitch) {
+        readPitch();
+      } else {
+        Object.assign(frame.pitch, NO_PITCH);
+        lastPitchTime = -Infinity;
+      }
+      return frame;
+    },
+    dispose: () => {
+      input.disconnect();
+      splitter.disconnect();
+    },
+  };
+};
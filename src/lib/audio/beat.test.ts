@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { beatPulse, createBeatDetector, NO_BEAT } from './beat';
+
+const FRAME_RATE = 60;
+const BINS = 64;
+const QUIET = new Float32Array(BINS).fill(0.1);
+const LOUD = new Float32Array(BINS).fill(1);
+
+// Feeds one spectrum per frame, loud on the given frame indexes and quiet
+// otherwise, and keeps a copy of what the detector reported each time
+const run = (frames: number, pulses: Set<number>, detector = createBeatDetector()) =>
+  Array.from({ length: frames }, (_, frame) => ({
+    time: frame / FRAME_RATE,
+    ...detector.process(pulses.has(frame) ? LOUD : QUIET, frame / FRAME_RATE),
+  }));
+
+const onsetFrames = (frames: ReturnType<typeof run>) =>
+  frames.flatMap((info, frame) => (info.onset ? [frame] : []));
+
+// Frame indexes of a pulse every beat at the given tempo, skipping frame 0,
+// which only primes the flux
+const pulsesAt = (bpm: number, seconds: number) => {
+  const period = (60 / bpm) * FRAME_RATE;
+  const pulses = new Set<number>();
+  for (let frame = period; frame < seconds * FRAME_RATE; frame += period) pulses.add(Math.round(frame));
+  return pulses;
+};
+
+describe('createBeatDetector', () => {
+  it('flags an onset on every pulse and nowhere else', () => {
+    const pulses = pulsesAt(120, 6);
+    const frames = run(6 * FRAME_RATE, pulses);
+
+    expect(onsetFrames(frames)).toEqual([...pulses]);
+  });
+
+  it.each([90, 120, 150])('estimates %i BPM from pulses at that tempo', (bpm) => {
+    const frames = run(8 * FRAME_RATE, pulsesAt(bpm, 8));
+    const last = frames[frames.length - 1];
+
+    expect(Math.abs(last.bpm - bpm)).toBeLessThanOrEqual(1);
+    expect(last.confidence).toBeGreaterThan(0.35);
+  });
+
+  it('locks the beat grid onto the pulses once the tempo is known', () => {
+    const pulses = pulsesAt(120, 8);
+    const frames = run(8 * FRAME_RATE, pulses);
+    const settled = frames.slice(4 * FRAME_RATE);
+
+    // One beat per half second, each landing on or just after a pulse
+    const beats = settled.filter(info => info.beat);
+    expect(beats.length).toBeGreaterThanOrEqual(7);
+    expect(beats.length).toBeLessThanOrEqual(9);
+    beats.forEach(info => expect(info.phase).toBeLessThan(0.1));
+    expect(settled[settled.length - 1].count).toBeGreaterThan(beats.length);
+  });
+
+  it('treats pulses closer than the refractory window as one onset', () => {
+    // 50 ms apart is one onset; 150 ms apart is two
+    const frames = run(60, new Set([10, 13, 22, 31]));
+
+    expect(onsetFrames(frames)).toEqual([10, 22, 31]);
+  });
+
+  it('finds no beats in a steady spectrum', () => {
+    const frames = run(4 * FRAME_RATE, new Set());
+
+    frames.forEach(info => {
+      expect(info.onset).toBe(false);
+      expect(info.beat).toBe(false);
+      expect(info.bpm).toBe(0);
+    });
+    expect(beatPulse(frames[frames.length - 1])).toBe(0);
+  });
+
+  it('needs more than one onset before it reports a tempo', () => {
+    const frames = run(2 * FRAME_RATE, new Set([30]));
+
+    expect(frames[30].onset).toBe(true);
+    expect(frames[frames.length - 1].bpm).toBe(0);
+  });
+
+  it('forgets everything on reset', () => {
+    const detector = createBeatDetector();
+    run(4 * FRAME_RATE, pulsesAt(120, 4), detector);
+
+    detector.reset();
+    expect(detector.process(QUIET, 0)).toEqual(NO_BEAT);
+  });
+});
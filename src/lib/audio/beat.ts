@@ -0,0 +1,167 @@
+// Onset and beat tracking on the analyser stream.
+//
+// Onsets come from spectral flux: how much energy appeared since the last
+// frame, summed over bins, compared against a moving threshold. Tempo is the
+// strongest inter-onset interval over the last few seconds, and a beat grid
+// at that tempo is nudged toward each onset that lands near it. Everything
+// works in seconds, so the detector doesn't care how often it is called.
+
+export interface BeatInfo {
+  bpm: number;         // 0 until a tempo is found
+  phase: number;       // 0 on the beat, rising to 1 just before the next
+  confidence: number;  // 0-1, how clearly the onsets agree on the tempo
+  onset: boolean;      // an onset was detected this frame
+  beat: boolean;       // the beat grid crossed a beat this frame
+  count: number;       // beats so far, for cycling colors and the like
+}
+
+export const NO_BEAT: BeatInfo = { bpm: 0, phase: 0, confidence: 0, onset: false, beat: false, count: 0 };
+
+export interface BeatDetectorOptions {
+  minBpm?: number;
+  maxBpm?: number;
+  // Onsets must beat the recent mean flux by this factor
+  sensitivity?: number;
+}
+
+export interface BeatDetector {
+  process: (spectrum: Float32Array, time: number) => BeatInfo;
+  reset: () => void;
+}
+
+const FLUX_WINDOW = 1;           // seconds of flux the threshold averages
+const ONSET_HISTORY = 8;         // seconds of onsets used for tempo
+const MIN_ONSET_GAP = 0.1;       // seconds; faster repeats are one onset
+const LOCK_WINDOW = 0.2;         // fraction of a period an onset may miss by
+const LOCK_STRENGTH = 0.3;       // how far one onset pulls the grid
+const MIN_CONFIDENCE = 0.35;
+
+export const createBeatDetector = (options: BeatDetectorOptions = {}): BeatDetector => {
+  const { minBpm = 70, maxBpm = 180, sensitivity = 1.5 } = options;
+
+  let previous = new Float32Array(0);
+  let flux: { time: number; value: number }[] = [];
+  let onsets: number[] = [];
+  let lastOnset = -Infinity;
+  let bpm = 0;
+  let confidence = 0;
+  let anchor = 0;  // time of a beat on the current grid
+  let lastPhase = 0;
+  let count = 0;
+  const info: BeatInfo = { ...NO_BEAT };
+
+  const spectralFlux = (spectrum: Float32Array) => {
+    if (previous.length !== spectrum.length) {
+      previous = new Float32Array(spectrum);
+      return 0;
+    }
+    let sum = 0;
+    for (let i = 0; i < spectrum.length; i++) {
+      const rise = spectrum[i] - previous[i];
+      if (rise > 0) sum += rise;
+    }
+    previous.set(spectrum);
+    return sum / spectrum.length;
+  };
+
+  // Fold the intervals between each onset and the next two into the tempo
+  // range and vote; neighbouring tempos share votes so a slightly loose
+  // performance still agrees. Longer spans would fold odd multiples of the
+  // beat onto the wrong tempo.
+  const estimateTempo = () => {
+    const votes = new Float32Array(maxBpm - minBpm + 1);
+    let total = 0;
+
+    for (let i = 0; i < onsets.length; i++) {
+      for (let j = i + 1; j < Math.min(onsets.length, i + 3); j++) {
+        let candidate = 60 / (onsets[j] - onsets[i]);
+        while (candidate < minBpm) candidate *= 2;
+        while (candidate > maxBpm) candidate /= 2;
+        if (candidate < minBpm) continue;
+
+        const index = Math.round(candidate) - minBpm;
+        for (let offset = -2; offset <= 2; offset++) {
+          if (votes[index + offset] === undefined) continue;
+          const weight = Math.exp(-(offset * offset) / 2);
+          votes[index + offset] += weight;
+          total += weight;
+        }
+      }
+    }
+
+    let best = 0;
+    for (let i = 1; i < votes.length; i++) {
+      if (votes[i] > votes[best]) best = i;
+    }
+    return total > 0 ? { bpm: minBpm + best, confidence: Math.min(1, (votes[best] / total) * 5) } : null;
+  };
+
+  const reset = () => {
+    previous = new Float32Array(0);
+    flux = [];
+    onsets = [];
+    lastOnset = -Infinity;
+    bpm = 0;
+    confidence = 0;
+    anchor = 0;
+    lastPhase = 0;
+    count = 0;
+    Object.assign(info, NO_BEAT);
+  };
+
+  const process = (spectrum: Float32Array, time: number) => {
+    const value = spectralFlux(spectrum);
+    flux.push({ time, value });
+    while (flux.length && flux[0].time < time - FLUX_WINDOW) flux.shift();
+
+    const mean = flux.reduce((sum, entry) => sum + entry.value, 0) / flux.length;
+    const onset = value > mean * sensitivity && value > 1e-3 && time - lastOnset > MIN_ONSET_GAP;
+
+    if (onset) {
+      lastOnset = time;
+      onsets.push(time);
+      while (onsets.length && onsets[0] < time - ONSET_HISTORY) onsets.shift();
+
+      const tempo = estimateTempo();
+      if (tempo) {
+        bpm = tempo.bpm;
+        confidence = tempo.confidence;
+      }
+
+      if (bpm) {
+        const period = 60 / bpm;
+        // Distance from the nearest grid beat, in -0.5..0.5 periods
+        const offset = ((((time - anchor) / period) % 1) + 1.5) % 1 - 0.5;
+        if (Math.abs(offset) < LOCK_WINDOW || confidence < MIN_CONFIDENCE) {
+          anchor += offset * period * (confidence < MIN_CONFIDENCE ? 1 : LOCK_STRENGTH);
+        }
+      }
+    }
+
+    let phase = 0;
+    let beat = false;
+    if (bpm && confidence >= MIN_CONFIDENCE) {
+      const period = 60 / bpm;
+      phase = ((((time - anchor) / period) % 1) + 1) % 1;
+      // Wrapping round means a beat passed since the last frame
+      beat = phase < lastPhase;
+      if (beat) count++;
+    }
+    lastPhase = phase;
+
+    info.bpm = bpm;
+    info.phase = phase;
+    info.confidence = confidence;
+    info.onset = onset;
+    info.beat = beat;
+    info.count = count;
+    return info;
+  };
+
+  return { process, reset };
+};
+
+// A 1 -> 0 envelope that peaks on each beat, for pulsing sizes or brightness.
+// Higher sharpness makes a shorter flash.
+export const beatPulse = (beat: BeatInfo, sharpness = 4) =>
+  beat.bpm ? Math.pow(1 - beat.phase, sharpness) * beat.confidence : 0;
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeAudioContext, type FakeAudioBuffer } from '@/test/fakeAudio';
+import { createEffectsChain, DEFAULT_EFFECTS, type EffectSettings, type EffectType } from './effects';
+
+const settingsWith = (type: EffectType, changes: Partial<EffectSettings>) =>
+  DEFAULT_EFFECTS.map(effect => (effect.type === type ? { ...effect, ...changes } : effect));
+
+const withParams = (effects: EffectSettings[], type: EffectType, params: Record<string, number>) =>
+  effects.map(effect => (effect.type === type ? { ...effect, params: { ...effect.params, ...params } } : effect));
+
+let context: FakeAudioContext;
+
+const createChain = (effects: EffectSettings[]) =>
+  createEffectsChain(context.asContext(), effects);
+
+describe('createEffectsChain', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    context = new FakeAudioContext();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('starts with every effect bypassed', () => {
+    expect(DEFAULT_EFFECTS.every(effect => effect.bypass)).toBe(true);
+  });
+
+  it('builds no processors for bypassed effects', () => {
+    createChain(DEFAULT_EFFECTS);
+    ['convolver', 'delay', 'oscillator', 'shaper', 'compressor'].forEach(kind => {
+      expect(context.nodesOf(kind)).toEqual([]);
+    });
+  });
+
+  it('builds a processor when its effect is switched on', () => {
+    const chain = createChain(DEFAULT_EFFECTS);
+    chain.set(settingsWith('reverb', { bypass: false }));
+
+    const [convolver] = context.nodesOf('convolver');
+    expect(convolver.buffer).toBeDefined();
+    expect(context.callsTo(convolver.id)).toContainEqual([convolver.id, 'connect', expect.stringMatching(/^gain/)]);
+  });
+
+  it('takes a bypassed processor out once its wet signal has faded', () => {
+    const chain = createChain(settingsWith('delay', { bypass: false }));
+    chain.set(DEFAULT_EFFECTS);
+    const [delay] = context.nodesOf('delay');
+    // The feedback gain is the one the damping filter feeds
+    const [damping] = context.nodesOf('filter');
+    const feedback = context.callsTo(damping.id).find(([, method]) => method === 'connect')![2] as string;
+
+    // Still ringing out while the wet gain ramps down
+    expect(context.callsTo(feedback)).not.toContainEqual([feedback, 'disconnect']);
+    vi.advanceTimersByTime(150);
+    expect(context.callsTo(feedback)).toContainEqual([feedback, 'disconnect']);
+    expect(context.callsTo(delay.id)).toContainEqual([delay.id, 'disconnect']);
+  });
+
+  it('stops the chorus LFO when the chorus is bypassed', () => {
+    const chain = createChain(settingsWith('chorus', { bypass: false }));
+    const [lfo] = context.nodesOf('oscillator');
+    expect(lfo.stopTime).toBeNull();
+
+    chain.set(DEFAULT_EFFECTS);
+    vi.advanceTimersByTime(150);
+    expect(lfo.stopTime).not.toBeNull();
+  });
+
+  it('keeps the processor if the effect comes back before the fade ends', () => {
+    const chorus = settingsWith('chorus', { bypass: false });
+    const chain = createChain(chorus);
+    chain.set(DEFAULT_EFFECTS);
+    chain.set(chorus);
+    vi.advanceTimersByTime(1000);
+
+    expect(context.nodesOf('oscillator')).toHaveLength(1);
+    expect(context.nodesOf('oscillator')[0].stopTime).toBeNull();
+  });
+
+  it('rebuilds a processor switched back on with the latest params', () => {
+    const delay = settingsWith('delay', { bypass: false });
+    const chain = createChain(delay);
+    chain.set(DEFAULT_EFFECTS);
+    vi.advanceTimersByTime(150);
+
+    chain.set(withParams(delay, 'delay', { time: 0.5 }));
+    const [, second] = context.nodesOf('delay');
+    expect(context.callsTo(second.id)).toContainEqual([`${second.id}.delayTime`, 'setTargetAtTime', 0.5, 0, 0.02]);
+  });
+
+  it('rebuilds the impulse response once the decay stops changing', () => {
+    const reverb = settingsWith('reverb', { bypass: false });
+    const chain = createChain(reverb);
+    const [convolver] = context.nodesOf('convolver');
+    const first = convolver.buffer as FakeAudioBuffer;
+
+    [2.6, 2.7, 2.8, 2.9].forEach(decay => {
+      chain.set(withParams(reverb, 'reverb', { decay }));
+      vi.advanceTimersByTime(50);
+    });
+    expect(convolver.buffer).toBe(first);
+    expect(context.callsTo(convolver.id).filter(([, method]) => method === 'buffer')).toHaveLength(1);
+
+    vi.advanceTimersByTime(150);
+    const buffers = context.callsTo(convolver.id).filter(([, method]) => method === 'buffer');
+    expect(buffers).toHaveLength(2);
+    expect((convolver.buffer as FakeAudioBuffer).length).toBe(Math.round(2.9 * context.sampleRate));
+  });
+
+  it('reuses an impulse response it has built before', () => {
+    const reverb = settingsWith('reverb', { bypass: false });
+    const chain = createChain(reverb);
+    const [convolver] = context.nodesOf('convolver');
+    const first = convolver.buffer;
+
+    chain.set(withParams(reverb, 'reverb', { decay: 4 }));
+    vi.advanceTimersByTime(150);
+    chain.set(reverb);
+    vi.advanceTimersByTime(150);
+
+    expect(convolver.buffer).toBe(first);
+  });
+});
@@ -0,0 +1,419 @@
+// Master effects: an ordered chain of units, each with its own bypass and
+// wet/dry mix. Every unit has the same shape,
+//
+//   input -> dry --------------> output
+//         -> processor -> wet -> output
+//
+// so units can be reordered by rewiring inputs and outputs alone.
+
+export type EffectType = 'distortion' | 'chorus' | 'delay' | 'reverb' | 'compressor';
+
+export interface EffectSettings {
+  type: EffectType;
+  bypass: boolean;
+  mix: number;  // 0 dry .. 1 wet
+  params: Record<string, number>;
+}
+
+export interface EffectParam {
+  id: string;
+  name: string;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+  default: number;
+}
+
+export interface EffectDefinition {
+  type: EffectType;
+  name: string;
+  params: EffectParam[];
+}
+
+export const EFFECTS: EffectDefinition[] = [
+  {
+    type: 'distortion',
+    name: 'Distortion',
+    params: [
+      { id: 'drive', name: 'Drive', min: 0, max: 50, step: 0.5, unit: '', default: 8 },
+    ],
+  },
+  {
+    type: 'chorus',
+    name: 'Chorus',
+    params: [
+      { id: 'rate', name: 'Rate', min: 0.05, max: 5, step: 0.05, unit: 'Hz', default: 0.8 },
+      { id: 'depth', name: 'Depth', min: 0, max: 10, step: 0.1, unit: 'ms', default: 3 },
+      { id: 'delay', name: 'Delay', min: 5, max: 30, step: 0.5, unit: 'ms', default: 15 },
+    ],
+  },
+  {
+    type: 'delay',
+    name: 'Delay',
+    params: [
+      { id: 'time', name: 'Time', min: 0.02, max: 2, step: 0.01, unit: 's', default: 0.35 },
+      { id: 'feedback', name: 'Feedback', min: 0, max: 0.9, step: 0.01, unit: '', default: 0.4 },
+    ],
+  },
+  {
+    type: 'reverb',
+    name: 'Reverb',
+    params: [
+      { id: 'decay', name: 'Decay', min: 0.2, max: 8, step: 0.1, unit: 's', default: 2.5 },
+    ],
+  },
+  {
+    type: 'compressor',
+    name: 'Compressor',
+    params: [
+      { id: 'threshold', name: 'Threshold', min: -60, max: 0, step: 1, unit: 'dB', default: -18 },
+      { id: 'ratio', name: 'Ratio', min: 1, max: 20, step: 0.5, unit: ':1', default: 4 },
+      { id: 'attack', name: 'Attack', min: 0, max: 0.5, step: 0.001, unit: 's', default: 0.01 },
+      { id: 'release', name: 'Release', min: 0.01, max: 1, step: 0.01, unit: 's', default: 0.25 },
+    ],
+  },
+];
+
+export const getEffectDefinition = (type: EffectType) => EFFECTS.find(effect => effect.type === type)!;
+
+const defaultParams = (type: EffectType) =>
+  Object.fromEntries(getEffectDefinition(type).params.map(param => [param.id, param.default]));
+
+// Everything starts bypassed, so the synth sounds as it did before the chain
+// existed until an effect is switched on
+export const DEFAULT_EFFECTS: EffectSettings[] = EFFECTS.map(({ type }) => ({
+  type,
+  bypass: true,
+  mix: type === 'compressor' ? 1 : 0.5,
+  params: defaultParams(type),
+}));
+
+// How long the chain keeps sounding after its input stops, so offline
+// renders don't cut the reverb or echoes short
+export const effectsTail = (effects: EffectSettings[]) =>
+  effects.reduce((tail, effect) => {
+    if (effect.bypass) return tail;
+    if (effect.type === 'reverb') return tail + effect.params.decay;
+    if (effect.type === 'delay' && effect.params.feedback > 0) {
+      // Echoes until they fall 60 dB
+      return tail + effect.params.time * Math.ceil(Math.log(0.001) / Math.log(effect.params.feedback));
+    }
+    return tail;
+  }, 0);
+
+/* Processors */
+
+interface Processor {
+  input: AudioNode;
+  output: AudioNode;
+  update: (params: Record<string, number>) => void;
+  // Disconnect everything and stop any sources
+  dispose: () => void;
+}
+
+const PARAM_SMOOTHING = 0.02;
+
+// Dragging the reverb's decay would otherwise build a new response, seconds
+// of stereo noise, on every step of the slider
+const IMPULSE_REBUILD_DELAY = 150;  // ms
+const IMPULSE_CACHE_SIZE = 4;
+
+// Seeded so impulse responses, and with them offline renders, are repeatable
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Stereo noise with an exponential decay that reaches -60 dB at `decay`
+const createImpulseResponse = (context: BaseAudioContext, decay: number) => {
+  const length = Math.max(1, Math.round(decay * context.sampleRate));
+  const buffer = context.createBuffer(2, length, context.sampleRate);
+  const random = createRandom(length);
+  for (let channel = 0; channel < 2; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      data[i] = (random() * 2 - 1) * Math.exp((-6.9 * i) / length);
+    }
+  }
+  return buffer;
+};
+
+// Recent responses, newest last, so toggling the reverb or going back to an
+// earlier decay doesn't build one again. Buffers aren't tied to a context, so
+// an offline render at the same rate shares them with the live one.
+const impulseCache: { key: string; buffer: AudioBuffer }[] = [];
+
+const cachedImpulseResponse = (context: BaseAudioContext, decay: number) => {
+  const key = `${context.sampleRate}:${decay}`;
+  const index = impulseCache.findIndex(entry => entry.key === key);
+  const entry = index >= 0 ? impulseCache.splice(index, 1)[0] : { key, buffer: createImpulseResponse(context, decay) };
+  impulseCache.push(entry);
+  if (impulseCache.length > IMPULSE_CACHE_SIZE) impulseCache.shift();
+  return entry.buffer;
+};
+
+// Soft clipping that gets harder as drive goes up
+const createDistortionCurve = (drive: number) => {
+  const curve = new Float32Array(1024);
+  for (let i = 0; i < curve.length; i++) {
+    const x = (i / (curve.length - 1)) * 2 - 1;
+    curve[i] = ((1 + drive) * x) / (1 + drive * Math.abs(x));
+  }
+  return curve;
+};
+
+const PROCESSORS: Record<EffectType, (context: BaseAudioContext) => Processor> = {
+  distortion: (context) => {
+    const shaper = context.createWaveShaper();
+    shaper.oversample = '4x';
+    let drive = -1;
+    return {
+      input: shaper,
+      output: shaper,
+      update: (params) => {
+        if (params.drive === drive) return;
+        drive = params.drive;
+        shaper.curve = createDistortionCurve(drive);
+      },
+      dispose: () => shaper.disconnect(),
+    };
+  },
+
+  // Two delay lines swept by one LFO in opposite directions, panned apart
+  chorus: (context) => {
+    const input = context.createGain();
+    const output = context.createGain();
+    const lfo = context.createOscillator();
+    lfo.type = 'sine';
+
+    const lines = [-1, 1].map(side => {
+      const delay = context.createDelay(0.1);
+      const depth = context.createGain();
+      const pan = context.createStereoPanner();
+      pan.pan.value = side;
+      lfo.connect(depth);
+      depth.connect(delay.delayTime);
+      input.connect(delay);
+      delay.connect(pan);
+      pan.connect(output);
+      return { delay, depth, pan, side };
+    });
+    lfo.start();
+
+    return {
+      input,
+      output,
+      update: (params) => {
+        lfo.frequency.setTargetAtTime(params.rate, context.currentTime, PARAM_SMOOTHING);
+        lines.forEach(({ delay, depth, side }) => {
+          delay.delayTime.setTargetAtTime(params.delay / 1000, context.currentTime, PARAM_SMOOTHING);
+          depth.gain.setTargetAtTime((side * params.depth) / 1000, context.currentTime, PARAM_SMOOTHING);
+        });
+      },
+      dispose: () => {
+        lfo.stop();
+        lfo.disconnect();
+        input.disconnect();
+        output.disconnect();
+        lines.forEach(({ delay, depth, pan }) => {
+          delay.disconnect();
+          depth.disconnect();
+          pan.disconnect();
+        });
+      },
+    };
+  },
+
+  // Feedback delay with a gentle low-pass in the loop, so repeats darken
+  delay: (context) => {
+    const delay = context.createDelay(2);
+    const feedback = context.createGain();
+    const damping = context.createBiquadFilter();
+    damping.type = 'lowpass';
+    damping.frequency.value = 5000;
+    delay.connect(damping);
+    damping.connect(feedback);
+    feedback.connect(delay);
+    return {
+      input: delay,
+      output: delay,
+      update: (params) => {
+        delay.delayTime.setTargetAtTime(params.time, context.currentTime, PARAM_SMOOTHING);
+        feedback.gain.setTargetAtTime(params.feedback, context.currentTime, PARAM_SMOOTHING);
+      },
+      // Breaking the loop lets the echoes die with the nodes
+      dispose: () => {
+        delay.disconnect();
+        damping.disconnect();
+        feedback.disconnect();
+      },
+    };
+  },
+
+  reverb: (context) => {
+    const convolver = context.createConvolver();
+    let decay = -1;
+    let rebuild: ReturnType<typeof setTimeout> | undefined;
+    return {
+      input: convolver,
+      output: convolver,
+      update: (params) => {
+        // Building a new response is costly, so only when the decay changes
+        if (params.decay === decay) return;
+        decay = params.decay;
+        // The first one is needed straight away, not least by offline renders;
+        // later ones wait for the slider to settle
+        if (!convolver.buffer) {
+          convolver.buffer = cachedImpulseResponse(context, decay);
+          return;
+        }
+        clearTimeout(rebuild);
+        rebuild = setTimeout(() => {
+          convolver.buffer = cachedImpulseResponse(context, decay);
+        }, IMPULSE_REBUILD_DELAY);
+      },
+      dispose: () => {
+        clearTimeout(rebuild);
+        convolver.disconnect();
+      },
+    };
+  },
+
+  compressor: (context) => {
+    const compressor = context.createDynamicsCompressor();
+    compressor.knee.value = 6;
+    return {
+      input: compressor,
+      output: compressor,
+      update: (params) => {
+        compressor.threshold.setTargetAtTime(params.threshold, context.currentTime, PARAM_SMOOTHING);
+        compressor.ratio.setTargetAtTime(params.ratio, context.currentTime, PARAM_SMOOTHING);
+        compressor.attack.setTargetAtTime(params.attack, context.currentTime, PARAM_SMOOTHING);
+        compressor.release.setTargetAtTime(params.release, context.currentTime, PARAM_SMOOTHING);
+      },
+      dispose: () => compressor.disconnect(),
+    };
+  },
+};
+
+/* Units and chain */
+
+interface EffectUnit {
+  input: GainNode;
+  output: GainNode;
+  update: (settings: EffectSettings) => void;
+  dispose: () => void;
+}
+
+// How long a bypassed unit waits for its wet signal to fade before taking
+// the processor out: several of the smoothing time constants
+const BYPASS_TEARDOWN = 150;  // ms
+
+// A bypassed unit has no processor at all, so a reverb or delay that's
+// switched off costs nothing. It's built again, from the latest params, when
+// the unit is switched back on.
+const createEffectUnit = (context: BaseAudioContext, type: EffectType): EffectUnit => {
+  const input = context.createGain();
+  const output = context.createGain();
+  const dry = context.createGain();
+  const wet = context.createGain();
+  let processor: Processor | null = null;
+  let teardown: ReturnType<typeof setTimeout> | undefined;
+
+  input.connect(dry);
+  dry.connect(output);
+  wet.connect(output);
+
+  const removeProcessor = () => {
+    if (!processor) return;
+    input.disconnect(processor.input);
+    processor.dispose();
+    processor = null;
+  };
+
+  return {
+    input,
+    output,
+    update: (settings) => {
+      clearTimeout(teardown);
+      if (settings.bypass) {
+        if (processor) teardown = setTimeout(removeProcessor, BYPASS_TEARDOWN);
+      } else {
+        if (!processor) {
+          processor = PROCESSORS[type](context);
+          input.connect(processor.input);
+          processor.output.connect(wet);
+        }
+        processor.update(settings.params);
+      }
+
+      // Equal-power crossfade, so half wet isn't a dip in level
+      const mix = settings.bypass ? 0 : settings.mix;
+      dry.gain.setTargetAtTime(Math.cos((mix * Math.PI) / 2), context.currentTime, PARAM_SMOOTHING);
+      wet.gain.setTargetAtTime(Math.sin((mix * Math.PI) / 2), context.currentTime, PARAM_SMOOTHING);
+    },
+    dispose: () => {
+      clearTimeout(teardown);
+      removeProcessor();
+      input.disconnect();
+      dry.disconnect();
+      wet.disconnect();
+      output.disconnect();
+    },
+  };
+};
+
+export interface EffectsChain {
+  input: GainNode;
+  output: GainNode;
+  // Apply settings in the given order, rewiring only if the order changed
+  set: (effects: EffectSettings[]) => void;
+  dispose: () => void;
+}
+
+export const createEffectsChain = (
+  context: BaseAudioContext,
+  effects: EffectSettings[] = DEFAULT_EFFECTS
+): EffectsChain => {
+  const input = context.createGain();
+  const output = context.createGain();
+  const units = new Map<EffectType, EffectUnit>();
+  let order = '';
+
+  const set = (next: EffectSettings[]) => {
+    next.forEach(settings => {
+      if (!units.has(settings.type)) units.set(settings.type, createEffectUnit(context, settings.type));
+      units.get(settings.type)!.update(settings);
+    });
+
+    const nextOrder = next.map(settings => settings.type).join('>');
+    if (nextOrder === order) return;
+    order = nextOrder;
+
+    input.disconnect();
+    units.forEach(unit => unit.output.disconnect());
+    const chain = next.map(settings => units.get(settings.type)!);
+    let previous: AudioNode = input;
+    chain.forEach(unit => {
+      previous.connect(unit.input);
+      previous = unit.output;
+    });
+    previous.connect(output);
+  };
+
+  set(effects);
+
+  return {
+    input,
+    output,
+    set,
+    dispose: () => {
+      units.forEach(unit => unit.dispose());
+      input.disconnect();
+      output.disconnect();
+    },
+  };
+};
@@ -0,0 +1,89 @@
+export type EnvelopeCurve = 'linear' | 'exponential';
+
+export interface Envelope {
+  attack: number;   // seconds
+  decay: number;    // seconds
+  sustain: number;  // level relative to the peak, 0-1
+  release: number;  // seconds
+  curve: EnvelopeCurve;
+}
+
+// Exponential ramps can never reach zero, so they stop just above silence
+const SILENCE = 0.0001;
+
+// Very short segments click, so every stage takes at least this long
+const MIN_STAGE_TIME = 0.005;
+
+const rampTo = (param: AudioParam, value: number, time: number, curve: EnvelopeCurve) => {
+  if (curve === 'exponential') {
+    param.exponentialRampToValueAtTime(Math.max(value, SILENCE), time);
+  } else {
+    param.linearRampToValueAtTime(value, time);
+  }
+};
+
+// Schedule the attack and decay stages; the param then holds at the sustain level
+export const scheduleAttack = (
+  param: AudioParam,
+  envelope: Envelope,
+  peak: number,
+  startTime: number
+) => {
+  const attackEnd = startTime + Math.max(envelope.attack, MIN_STAGE_TIME);
+  const decayEnd = attackEnd + Math.max(envelope.decay, MIN_STAGE_TIME);
+
+  param.cancelScheduledValues(startTime);
+  param.setValueAtTime(envelope.curve === 'exponential' ? SILENCE : 0, startTime);
+  rampTo(param, peak, attackEnd, envelope.curve);
+  rampTo(param, peak * envelope.sustain, decayEnd, envelope.curve);
+};
+
+// Schedule the release stage from wherever the envelope currently is.
+// Returns the time at which the voice is silent and can be stopped.
+export const scheduleRelease = (
+  param: AudioParam,
+  envelope: Envelope,
+  startTime: number
+) => {
+  const endTime = startTime + Math.max(envelope.release, MIN_STAGE_TIME);
+
+  if (typeof param.cancelAndHoldAtTime === 'function') {
+    param.cancelAndHoldAtTime(startTime);
+  } else {
+    // Firefox has no cancelAndHoldAtTime, so pin the current value instead
+    const currentValue = param.value;
+    param.cancelScheduledValues(startTime);
+    param.setValueAtTime(currentValue, startTime);
+  }
+
+  rampTo(param, 0, endTime, envelope.curve);
+  if (envelope.curve === 'exponential') {
+    param.setValueAtTime(0, endTime);
+  }
+
+  return endTime;
+};
+
+// Estimate where an envelope is at `time`, treating every stage as linear.
+// Good enough to compare voices; the real curve is on the AudioParam.
+export const envelopeLevel = (
+  envelope: Envelope,
+  peak: number,
+  startTime: number,
+  releaseTime: number | null,
+  time: number
+) => {
+  const attackEnd = startTime + Math.max(envelope.attack, MIN_STAGE_TIME);
+  const decayEnd = attackEnd + Math.max(envelope.decay, MIN_STAGE_TIME);
+
+  const heldLevel = (t: number) => {
+    if (t < startTime) return 0;
+    if (t < attackEnd) return (peak * (t - startTime)) / (attackEnd - startTime);
+    if (t < decayEnd) return peak - (peak * (1 - envelope.sustain) * (t - attackEnd)) / (decayEnd - attackEnd);
+    return peak * envelope.sustain;
+  };
+
+  if (releaseTime === null || time < releaseTime) return heldLevel(time);
+  const progress = (time - releaseTime) / Math.max(envelope.release, MIN_STAGE_TIME);
+  return heldLevel(releaseTime) * Math.max(0, 1 - progress);
+};
@@ -0,0 +1,92 @@
+import { createEffectsChain, DEFAULT_EFFECTS, type EffectsChain, type EffectSettings } from './effects';
+import { dbToGain } from './meter';
+
+// The output side of the synth, shared by the live AudioEngine and offline
+// rendering so a bounced take sounds the same as it did when played:
+//
+//   voices -> synthBus -> masterBus -> effects -> masterGain -> limiter -> destination
+export interface OutputGraph {
+  synthBus: GainNode;
+  masterBus: GainNode;
+  effects: EffectsChain;
+  // After the volume, before the limiter: where a meter shows clipping
+  masterGain: GainNode;
+  // Everything that reaches the speakers, for recording
+  output: AudioNode;
+  setVolume: (volume: number) => void;
+  // Scale the synth to the number of voices sounding at the given time
+  setVoiceCount: (count: number, time?: number) => void;
+  dispose: () => void;
+}
+
+export interface OutputGraphOptions {
+  effects?: EffectSettings[];
+  volume?: number;  // dB
+}
+
+// Master volume in dB; the bottom of the range mutes
+export const MASTER_VOLUME_RANGE = { min: -48, max: 6 };
+export const DEFAULT_MASTER_VOLUME = 0;
+
+export const volumeToGain = (volume: number) => (volume <= MASTER_VOLUME_RANGE.min ? 0 : dbToGain(volume));
+
+// Voices add up roughly in power, so dividing by the square root of the
+// count keeps a chord about as loud as a single note
+export const voiceNormalization = (count: number) => 1 / Math.sqrt(Math.max(1, count));
+
+const LIMITER_THRESHOLD = -1;  // dB
+const GAIN_SMOOTHING = 0.02;
+const NORMALIZATION_SMOOTHING = 0.03;
+
+export const createOutputGraph = (context: BaseAudioContext, options: OutputGraphOptions = {}): OutputGraph => {
+  const { effects: effectSettings = DEFAULT_EFFECTS, volume = DEFAULT_MASTER_VOLUME } = options;
+
+  // The compressor catches peaks with a little look-ahead; an identity
+  // waveshaper behind it clamps anything still past full scale, since inputs
+  // outside -1..1 take the curve's end values
+  const limiter = context.createDynamicsCompressor();
+  limiter.threshold.value = LIMITER_THRESHOLD;
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = 0.002;
+  limiter.release.value = 0.1;
+  const ceiling = context.createWaveShaper();
+  ceiling.curve = new Float32Array([-1, 1]);
+  limiter.connect(ceiling);
+  ceiling.connect(context.destination);
+
+  const masterGain = context.createGain();
+  masterGain.gain.value = volumeToGain(volume);
+  masterGain.connect(limiter);
+
+  const effects = createEffectsChain(context, effectSettings);
+  effects.output.connect(masterGain);
+
+  const masterBus = context.createGain();
+  masterBus.connect(effects.input);
+
+  const synthBus = context.createGain();
+  synthBus.connect(masterBus);
+
+  return {
+    synthBus,
+    masterBus,
+    effects,
+    masterGain,
+    output: ceiling,
+    setVolume: (next) => {
+      masterGain.gain.setTargetAtTime(volumeToGain(next), context.currentTime, GAIN_SMOOTHING);
+    },
+    setVoiceCount: (count, time = context.currentTime) => {
+      synthBus.gain.setTargetAtTime(voiceNormalization(count), time, NORMALIZATION_SMOOTHING);
+    },
+    dispose: () => {
+      synthBus.disconnect();
+      masterBus.disconnect();
+      effects.dispose();
+      masterGain.disconnect();
+      limiter.disconnect();
+      ceiling.disconnect();
+    },
+  };
+};
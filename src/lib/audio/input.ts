@@ -0,0 +1,36 @@
+export type AudioSource = 'synth' | 'input' | 'both';
+
+export const AUDIO_SOURCES: { id: AudioSource; name: string }[] = [
+  { id: 'synth', name: 'Synth' },
+  { id: 'input', name: 'Microphone / line-in' },
+  { id: 'both', name: 'Synth + input' },
+];
+
+export const usesSynth = (source: AudioSource) => source !== 'input';
+export const usesLiveInput = (source: AudioSource) => source !== 'synth';
+
+export interface LiveInput {
+  node: MediaStreamAudioSourceNode;
+  stop: () => void;
+}
+
+// Open the default capture device. Browser voice processing is turned off so
+// line-level signals reach the analyser unaltered.
+export const openLiveInput = async (context: AudioContext): Promise<LiveInput> => {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: {
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false,
+    },
+  });
+  const node = context.createMediaStreamSource(stream);
+
+  return {
+    node,
+    stop: () => {
+      node.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+    },
+  };
+};
@@ -0,0 +1,76 @@
+// Peak and RMS levels of a stereo signal, read on demand from analysers that
+// sit beside the signal path and never reach the speakers.
+
+export interface ChannelLevel {
+  peak: number;  // linear, 1 is 0 dBFS
+  rms: number;   // linear
+}
+
+export interface MeterReading {
+  left: ChannelLevel;
+  right: ChannelLevel;
+  // Some sample reached or passed full scale since the last read
+  clipped: boolean;
+}
+
+export interface LevelMeter {
+  read: () => MeterReading;
+  dispose: () => void;
+}
+
+// About 46 ms at 44.1 kHz, close to a standard meter's integration time
+const METER_WINDOW = 2048;
+
+export const gainToDb = (gain: number) => (gain > 0 ? 20 * Math.log10(gain) : -Infinity);
+
+export const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+export const createLevelMeter = (context: BaseAudioContext, source: AudioNode): LevelMeter => {
+  // Up-mix to a fixed stereo pair so a mono source shows on both channels
+  const input = context.createGain();
+  input.channelCount = 2;
+  input.channelCountMode = 'explicit';
+  input.channelInterpretation = 'speakers';
+  source.connect(input);
+
+  const splitter = context.createChannelSplitter(2);
+  input.connect(splitter);
+
+  const channels = [0, 1].map(channel => {
+    const analyser = context.createAnalyser();
+    analyser.fftSize = METER_WINDOW;
+    splitter.connect(analyser, channel);
+    return { analyser, samples: new Float32Array(METER_WINDOW) };
+  });
+
+  const reading: MeterReading = { left: { peak: 0, rms: 0 }, right: { peak: 0, rms: 0 }, clipped: false };
+
+  // Returns a shared object that's overwritten on the next call
+  const read = () => {
+    reading.clipped = false;
+    [reading.left, reading.right].forEach((level, i) => {
+      const { analyser, samples } = channels[i];
+      analyser.getFloatTimeDomainData(samples);
+      let peak = 0;
+      let sum = 0;
+      for (let j = 0; j < samples.length; j++) {
+        const value = Math.abs(samples[j]);
+        if (value > peak) peak = value;
+        sum += value * value;
+      }
+      level.peak = peak;
+      level.rms = Math.sqrt(sum / samples.length);
+      if (peak >= 1) reading.clipped = true;
+    });
+    return reading;
+  };
+
+  return {
+    read,
+    dispose: () => {
+      source.disconnect(input);
+      input.disconnect();
+      splitter.disconnect();
+    },
+  };
+};
@@ -0,0 +1,20 @@
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// MIDI notes run from 0 (C-1) to 127 (G9)
+export const MIDI_NOTE_RANGE = { min: 0, max: 127 };
+
+export const isMidiNote = (note: number) =>
+  Number.isInteger(note) && note >= MIDI_NOTE_RANGE.min && note <= MIDI_NOTE_RANGE.max;
+
+// MIDI note 69 is A4 at concert pitch
+export const midiToFrequency = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+export const pitchClass = (note: number) => ((note % 12) + 12) % 12;
+
+// Scientific pitch notation, where MIDI note 60 is C4
+export const noteName = (note: number) => `${NOTE_NAMES[pitchClass(note)]}${Math.floor(note / 12) - 1}`;
+
+export const isBlackKey = (note: number) => NOTE_NAMES[pitchClass(note)].includes('#');
+
+// Fractional MIDI note for a frequency; round it for the nearest note
+export const frequencyToMidi = (frequency: number) => 69 + 12 * Math.log2(frequency / 440);
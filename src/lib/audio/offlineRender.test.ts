@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Take } from '@/lib/recording/take';
+import { FakeAudioBuffer, FakeAudioContext, FakeOfflineAudioContext } from '@/test/fakeAudio';
+import { DEFAULT_EFFECTS } from './effects';
+import { renderTakeOffline } from './offlineRender';
+import { DEFAULT_PATCH, type SynthPatch } from './patch';
+
+// Every effect on, so the reverb's impulse response and the delay and chorus
+// are part of the render too
+const EFFECTS = DEFAULT_EFFECTS.map(effect => ({ ...effect, bypass: false, mix: 0.5 }));
+
+const PATCH: SynthPatch = {
+  ...DEFAULT_PATCH,
+  oscillators: [
+    { waveform: 'custom', octave: 0, detune: 0, level: 1 },
+    { waveform: 'sawtooth', octave: -1, detune: 7, level: 0.5 },
+  ],
+  // Two voices for three overlapping notes, so a voice gets stolen
+  voicing: { ...DEFAULT_PATCH.voicing, maxVoices: 2 },
+};
+
+const TAKE: Take = {
+  events: [
+    { type: 'noteOn', note: 60, velocity: 0.8, time: 0 },
+    { type: 'noteOn', note: 64, velocity: 0.6, time: 0.25 },
+    { type: 'noteOn', note: 67, velocity: 1, time: 0.5 },
+    { type: 'noteOff', note: 60, velocity: 0, time: 0.75 },
+    { type: 'noteOff', note: 64, velocity: 0, time: 1 },
+    { type: 'noteOff', note: 67, velocity: 0, time: 1 },
+  ],
+  duration: 1.25,
+};
+
+const render = async (take: Take, effects = EFFECTS) => {
+  const buffer = await renderTakeOffline(take, PATCH, { sampleRate: 8000, effects });
+  return { buffer, context: FakeAudioContext.instances.at(-1)! };
+};
+
+describe('renderTakeOffline', () => {
+  beforeEach(() => {
+    FakeAudioContext.instances = [];
+    vi.stubGlobal('OfflineAudioContext', FakeOfflineAudioContext);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('renders the same take identically twice', async () => {
+    const first = await render(TAKE);
+    const second = await render(TAKE);
+
+    expect(second.context).not.toBe(first.context);
+    expect(second.context.log).toEqual(first.context.log);
+    expect(second.buffer).toEqual(first.buffer);
+  });
+
+  it('uses the same impulse response each time', async () => {
+    const responses = await Promise.all([render(TAKE), render(TAKE)]).then(renders =>
+      renders.map(({ context }) => context.nodesOf('convolver')[0].buffer as FakeAudioBuffer));
+
+    const left = responses[0].getChannelData(0);
+    expect(left.some(sample => sample !== 0)).toBe(true);
+    expect(responses[1].getChannelData(0)).toEqual(left);
+    expect(responses[1].getChannelData(1)).toEqual(responses[0].getChannelData(1));
+  });
+
+  it('sizes the render to the take plus its tail', async () => {
+    const { buffer } = await render(TAKE);
+    expect(buffer.numberOfChannels).toBe(2);
+    // The release, the reverb decay and the delay's echoes all ring on
+    expect(buffer.length / buffer.sampleRate).toBeGreaterThan(TAKE.duration + PATCH.envelope.release);
+  });
+
+  it('schedules each note at its time in the take', async () => {
+    // Without effects, so the chorus LFO isn't among the oscillators
+    const { context } = await render(TAKE, []);
+    const starts = context.log
+      .filter(([target, method]) => target.startsWith('oscillator') && method === 'start')
+      .map(([, , time]) => time);
+    expect(starts).toEqual([0, 0, 0.25, 0.25, 0.5, 0.5]);
+  });
+
+  it('renders a different take differently', async () => {
+    const first = await render(TAKE);
+    const second = await render({ ...TAKE, events: TAKE.events.map(event => ({ ...event, note: event.note + 1 })) });
+    expect(second.context.log).not.toEqual(first.context.log);
+  });
+});
@@ -0,0 +1,57 @@
+import { sortEvents, type Take } from '@/lib/recording/take';
+import { DEFAULT_EFFECTS, effectsTail, type EffectSettings } from './effects';
+import { createOutputGraph, DEFAULT_MASTER_VOLUME } from './graph';
+import type { SynthPatch } from './patch';
+import { createVoiceManager } from './voiceManager';
+
+export interface OfflineRenderOptions {
+  sampleRate?: number;
+  channels?: number;
+  effects?: EffectSettings[];
+  volume?: number;  // dB
+  // Extra time after the take so the last release and effect tails aren't cut off
+  tail?: number;
+}
+
+// Render a take faster than realtime through the same voice and output graph
+// the live engine uses. Given the same take, patch and output settings, the result is
+// sample-for-sample repeatable.
+export const renderTakeOffline = async (
+  take: Take,
+  patch: SynthPatch,
+  options: OfflineRenderOptions = {}
+) => {
+  const { sampleRate = 44100, channels = 2, effects = DEFAULT_EFFECTS, volume = DEFAULT_MASTER_VOLUME } = options;
+  const tail = options.tail ?? patch.envelope.release + effectsTail(effects) + 0.1;
+  const length = Math.max(1, Math.ceil((take.duration + tail) * sampleRate));
+
+  const context = new OfflineAudioContext(channels, length, sampleRate);
+  const graph = createOutputGraph(context, { effects, volume });
+  const voiceChanges: { time: number; delta: number }[] = [];
+  // The same allocation as the live engine, so stealing and legato match too
+  const voices = createVoiceManager(context, graph.synthBus, {
+    events: {
+      voiceStart: (time) => voiceChanges.push({ time, delta: 1 }),
+      voiceEnd: (time) => voiceChanges.push({ time, delta: -1 }),
+    },
+  });
+
+  sortEvents(take.events).forEach(event => {
+    if (event.type === 'noteOn') {
+      voices.noteOn(patch, event.note, event.velocity, event.time);
+    } else {
+      voices.noteOff(event.note, event.time);
+    }
+  });
+
+  // Releases end after later notes start, so normalise in time order
+  let count = 0;
+  voiceChanges
+    .sort((a, b) => a.time - b.time)
+    .forEach(change => {
+      count += change.delta;
+      graph.setVoiceCount(count, change.time);
+    });
+
+  return context.startRendering();
+};
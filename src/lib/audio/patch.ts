@@ -0,0 +1,152 @@
+import type { Envelope } from './envelope';
+
+export type Waveform = 'sine' | 'square' | 'sawtooth' | 'triangle' | 'custom';
+
+export type FilterType = 'lowpass' | 'highpass' | 'bandpass';
+
+export interface OscillatorSettings {
+  waveform: Waveform;
+  octave: number;  // shift from the played note
+  detune: number;  // cents
+  level: number;   // 0-1; silent oscillators aren't started at all
+}
+
+export interface FilterSettings {
+  type: FilterType;
+  cutoff: number;          // Hz, at middle C
+  resonance: number;       // Q
+  // 0 keeps the cutoff fixed; 1 moves it with the note, an octave per octave
+  keyTracking: number;
+  // How far the filter envelope sweeps the cutoff at its peak, in octaves
+  envelopeAmount: number;
+  envelope: Envelope;
+}
+
+// A subtractive voice: oscillators mixed into a filter, then the amp envelope
+//
+//   oscillators -> filter (cutoff swept by the filter envelope) -> amp envelope
+export interface SynthPatch {
+  oscillators: OscillatorSettings[];
+  // Relative amplitudes of the sine partials used by 'custom' oscillators
+  harmonics: number[];
+  filter: FilterSettings;
+  envelope: Envelope;
+  voicing: Voicing;
+}
+
+export const WAVEFORMS: { id: Waveform; name: string }[] = [
+  { id: 'sine', name: 'Sine' },
+  { id: 'square', name: 'Square' },
+  { id: 'sawtooth', name: 'Sawtooth' },
+  { id: 'triangle', name: 'Triangle' },
+  { id: 'custom', name: 'Custom' },
+];
+
+export const FILTER_TYPES: { id: FilterType; name: string }[] = [
+  { id: 'lowpass', name: 'Low-pass' },
+  { id: 'highpass', name: 'High-pass' },
+  { id: 'bandpass', name: 'Band-pass' },
+];
+
+// 'custom' oscillators are built from this many sine partials, each with an
+// amplitude in 0..1
+export const HARMONIC_COUNT = 8;
+
+export const OCTAVE_RANGE = { min: -2, max: 2 };
+export const DETUNE_RANGE = { min: -50, max: 50 };
+export const CUTOFF_RANGE = { min: 20, max: 20000 };
+export const RESONANCE_RANGE = { min: 0.1, max: 20 };
+export const ENVELOPE_AMOUNT_RANGE = { min: -4, max: 4 };
+
+// Which sounding voice makes way when a note arrives and all are busy
+export type StealPolicy = 'oldest' | 'quietest' | 'same-note';
+
+// retrigger: every note starts its own envelope from silence.
+// legato: one voice at a time, like a mono synth. A note played while
+// another is held slides the held voice to the new pitch instead, and
+// re-striking a held note keeps it going; the voice limit then only caps
+// overlapping release tails.
+export type VoiceMode = 'retrigger' | 'legato';
+
+export interface Voicing {
+  maxVoices: number;
+  steal: StealPolicy;
+  mode: VoiceMode;
+}
+
+export const MAX_VOICES_RANGE = { min: 1, max: 32 };
+
+export const STEAL_POLICIES: { id: StealPolicy; name: string }[] = [
+  { id: 'oldest', name: 'Oldest' },
+  { id: 'quietest', name: 'Quietest' },
+  { id: 'same-note', name: 'Same note' },
+];
+
+// A plain sine through an open filter; the second oscillator waits at zero
+export const DEFAULT_PATCH: SynthPatch = {
+  oscillators: [
+    { waveform: 'sine', octave: 0, detune: 0, level: 1 },
+    { waveform: 'sawtooth', octave: 0, detune: 7, level: 0 },
+  ],
+  // A soft organ-like tone: fundamental plus a few decaying overtones
+  harmonics: [1, 0.5, 0.33, 0.25, 0.12, 0.08, 0, 0],
+  filter: {
+    type: 'lowpass',
+    cutoff: 12000,
+    resonance: 0.7,
+    keyTracking: 0,
+    envelopeAmount: 0,
+    envelope: {
+      attack: 0.01,
+      decay: 0.4,
+      sustain: 0.3,
+      release: 0.3,
+      curve: 'linear',
+    },
+  },
+  envelope: {
+    attack: 0.1,
+    decay: 0.2,
+    sustain: 0.8,
+    release: 0.3,
+    curve: 'linear',
+  },
+  voicing: {
+    maxVoices: 16,
+    steal: 'oldest',
+    mode: 'retrigger',
+  },
+};
+
+export const createPeriodicWave = (context: BaseAudioContext, harmonics: number[]) => {
+  // Index 0 is the DC offset and is left at zero
+  const real = new Float32Array(harmonics.length + 1);
+  const imag = new Float32Array(harmonics.length + 1);
+  harmonics.forEach((amplitude, i) => {
+    imag[i + 1] = amplitude;
+  });
+  return context.createPeriodicWave(real, imag);
+};
+
+// Create an oscillator with the given waveform, tuned to the given frequency
+export const createPatchOscillator = (
+  context: BaseAudioContext,
+  patch: SynthPatch,
+  waveform: Waveform,
+  frequency: number
+) => {
+  const oscillator = context.createOscillator();
+
+  if (waveform === 'custom') {
+    oscillator.setPeriodicWave(createPeriodicWave(context, patch.harmonics));
+  } else {
+    oscillator.type = waveform;
+  }
+  oscillator.frequency.setValueAtTime(frequency, context.currentTime);
+
+  return oscillator;
+};
+
+// The filter's resting cutoff for a note, before the envelope moves it
+export const trackedCutoff = (filter: FilterSettings, note: number) =>
+  filter.cutoff * Math.pow(2, ((note - 60) / 12) * filter.keyTracking);
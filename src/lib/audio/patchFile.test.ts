@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PATCH, HARMONIC_COUNT } from './patch';
+import { PatchFileError, readPatchFile, writePatchFile } from './patchFile';
+
+describe('patch files', () => {
+  it('round-trips edited harmonics', () => {
+    const harmonics = [0.2, 1, 0, 0.7, 0, 0, 0.1, 0.05];
+    expect(readPatchFile(writePatchFile({ ...DEFAULT_PATCH, harmonics })).harmonics).toEqual(harmonics);
+  });
+
+  it('reads patches saved with fewer harmonics', () => {
+    const patch = readPatchFile(JSON.stringify({ version: 1, harmonics: [1, 0.5, 0.33, 0.25, 0.12, 0.08] }));
+    expect(patch.harmonics).toEqual([1, 0.5, 0.33, 0.25, 0.12, 0.08]);
+  });
+
+  it('rejects harmonic amplitudes outside 0..1', () => {
+    expect(() => readPatchFile(JSON.stringify({ harmonics: [1, 2] }))).toThrow(PatchFileError);
+  });
+
+  it('rejects more harmonics than the controls offer', () => {
+    const harmonics = Array.from({ length: HARMONIC_COUNT + 1 }, () => 0.5);
+    expect(() => readPatchFile(JSON.stringify({ harmonics }))).toThrow(PatchFileError);
+  });
+});
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import {
+  CUTOFF_RANGE,
+  DEFAULT_PATCH,
+  DETUNE_RANGE,
+  ENVELOPE_AMOUNT_RANGE,
+  HARMONIC_COUNT,
+  MAX_VOICES_RANGE,
+  OCTAVE_RANGE,
+  RESONANCE_RANGE,
+  type SynthPatch,
+} from './patch';
+
+// Patches are saved as JSON. Fields missing from a file fall back to the
+// defaults, so patches saved before a field existed still load.
+
+export const PATCH_FILE_VERSION = 1;
+
+export class PatchFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatchFileError';
+  }
+}
+
+const envelopeSchema = (defaults: SynthPatch['envelope']) => z.object({
+  attack: z.number().min(0).default(defaults.attack),
+  decay: z.number().min(0).default(defaults.decay),
+  sustain: z.number().min(0).max(1).default(defaults.sustain),
+  release: z.number().min(0).default(defaults.release),
+  curve: z.enum(['linear', 'exponential']).default(defaults.curve),
+}).default(defaults);
+
+const oscillatorSchema = z.object({
+  waveform: z.enum(['sine', 'square', 'sawtooth', 'triangle', 'custom']),
+  octave: z.number().int().min(OCTAVE_RANGE.min).max(OCTAVE_RANGE.max).default(0),
+  detune: z.number().min(DETUNE_RANGE.min).max(DETUNE_RANGE.max).default(0),
+  level: z.number().min(0).max(1).default(1),
+});
+
+const patchSchema = z.object({
+  oscillators: z.array(oscillatorSchema).min(1).max(DEFAULT_PATCH.oscillators.length).default(DEFAULT_PATCH.oscillators),
+  harmonics: z.array(z.number().min(0).max(1)).max(HARMONIC_COUNT).default(DEFAULT_PATCH.harmonics),
+  filter: z.object({
+    type: z.enum(['lowpass', 'highpass', 'bandpass']).default(DEFAULT_PATCH.filter.type),
+    cutoff: z.number().min(CUTOFF_RANGE.min).max(CUTOFF_RANGE.max).default(DEFAULT_PATCH.filter.cutoff),
+    resonance: z.number().min(RESONANCE_RANGE.min).max(RESONANCE_RANGE.max).default(DEFAULT_PATCH.filter.resonance),
+    keyTracking: z.number().min(0).max(1).default(DEFAULT_PATCH.filter.keyTracking),
+    envelopeAmount: z.number()
+      .min(ENVELOPE_AMOUNT_RANGE.min)
+      .max(ENVELOPE_AMOUNT_RANGE.max)
+      .default(DEFAULT_PATCH.filter.envelopeAmount),
+    envelope: envelopeSchema(DEFAULT_PATCH.filter.envelope),
+  }).default(DEFAULT_PATCH.filter),
+  envelope: envelopeSchema(DEFAULT_PATCH.envelope),
+  voicing: z.object({
+    maxVoices: z.number().int().min(MAX_VOICES_RANGE.min).max(MAX_VOICES_RANGE.max).default(DEFAULT_PATCH.voicing.maxVoices),
+    steal: z.enum(['oldest', 'quietest', 'same-note']).default(DEFAULT_PATCH.voicing.steal),
+    mode: z.enum(['retrigger', 'legato']).default(DEFAULT_PATCH.voicing.mode),
+  }).default(DEFAULT_PATCH.voicing),
+});
+
+export const isPatchFile = (file: File) => /\.json$/i.test(file.name) || file.type === 'application/json';
+
+export const writePatchFile = (patch: SynthPatch) =>
+  JSON.stringify({ version: PATCH_FILE_VERSION, ...patch }, null, 2);
+
+export const readPatchFile = (text: string): SynthPatch => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new PatchFileError('Not a JSON file');
+  }
+
+  const { version } = (json ?? {}) as { version?: unknown };
+  if (typeof version === 'number' && version > PATCH_FILE_VERSION) {
+    throw new PatchFileError('Saved by a newer version of the app');
+  }
+
+  // Unknown keys, the version among them, are dropped
+  const result = patchSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new PatchFileError(`Invalid patch: ${issue.path.join('.') || 'file'} ${issue.message.toLowerCase()}`);
+  }
+  // Every field is required or defaulted, but without strictNullChecks zod
+  // infers them all as optional
+  return result.data as SynthPatch;
+};
+
+export const loadPatchFile = async (file: File) => readPatchFile(await file.text());
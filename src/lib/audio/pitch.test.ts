@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { PITCH_DECIMATION, WAVEFORM_SIZE } from './analysis';
+import { noteName } from './notes';
+import { createPitchDetector } from './pitch';
+
+const SAMPLE_RATE = 44100;
+
+const sine = (frequency: number, amplitude = 0.5, length = WAVEFORM_SIZE) =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE));
+
+// Seeded, so a failure can be reproduced
+const noise = (length = WAVEFORM_SIZE) => {
+  let seed = 1;
+  return Float32Array.from({ length }, () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296 - 0.5;
+  });
+};
+
+const centsBetween = (a: number, b: number) => Math.abs(1200 * Math.log2(a / b));
+
+// What the analysis graph feeds the tracker: each pair of samples averaged
+const decimate = (samples: Float32Array) =>
+  Float32Array.from({ length: samples.length / PITCH_DECIMATION }, (_, i) => {
+    let sum = 0;
+    for (let j = 0; j < PITCH_DECIMATION; j++) sum += samples[i * PITCH_DECIMATION + j];
+    return sum / PITCH_DECIMATION;
+  });
+
+describe('createPitchDetector', () => {
+  it.each([
+    [440, 'A4'],
+    [261.63, 'C4'],
+  ])('tracks a %f Hz sine as %s', (frequency, name) => {
+    const pitch = createPitchDetector()(sine(frequency), SAMPLE_RATE);
+
+    expect(pitch.detected).toBe(true);
+    expect(pitch.frequency).toBeCloseTo(frequency, 0);
+    expect(noteName(pitch.note)).toBe(name);
+    expect(Math.abs(pitch.cents)).toBeLessThanOrEqual(1);
+    expect(pitch.confidence).toBeGreaterThan(0.9);
+  });
+
+  it('reports cents away from the nearest note', () => {
+    // A quarter tone above A4
+    const pitch = createPitchDetector()(sine(440 * Math.pow(2, 25 / 1200)), SAMPLE_RATE);
+
+    expect(noteName(pitch.note)).toBe('A4');
+    expect(pitch.cents).toBeGreaterThanOrEqual(24);
+    expect(pitch.cents).toBeLessThanOrEqual(26);
+  });
+
+  it('reports nothing for silence', () => {
+    const detect = createPitchDetector();
+
+    expect(detect(new Float32Array(WAVEFORM_SIZE), SAMPLE_RATE).detected).toBe(false);
+    expect(detect(sine(440, 0.005), SAMPLE_RATE).detected).toBe(false);
+  });
+
+  it('reports nothing for noise', () => {
+    expect(createPitchDetector()(noise(), SAMPLE_RATE).detected).toBe(false);
+  });
+
+  it('clears the last pitch when the signal stops', () => {
+    const detect = createPitchDetector();
+    detect(sine(440), SAMPLE_RATE);
+
+    const pitch = detect(new Float32Array(WAVEFORM_SIZE), SAMPLE_RATE);
+    expect(pitch).toMatchObject({ detected: false, frequency: 0, note: 0 });
+  });
+
+  it.each([65.41, 261.63, 440, 1046.5])('tracks %f Hz on the decimated input the analysis graph uses', (frequency) => {
+    const samples = sine(frequency);
+    const full = createPitchDetector()(samples, SAMPLE_RATE);
+    const decimated = createPitchDetector()(decimate(samples), SAMPLE_RATE / PITCH_DECIMATION);
+
+    expect(decimated.detected).toBe(true);
+    expect(decimated.note).toBe(full.note);
+    expect(centsBetween(decimated.frequency, frequency)).toBeLessThan(3);
+  });
+});
@@ -0,0 +1,108 @@
+import { frequencyToMidi, pitchClass } from './notes';
+
+// Monophonic pitch tracking with YIN (de Cheveigné & Kawahara, 2002): find
+// the lag at which the signal best matches a shifted copy of itself.
+
+export interface PitchInfo {
+  detected: boolean;
+  frequency: number;   // Hz
+  note: number;        // nearest MIDI note
+  cents: number;       // -50..50 from that note
+  pitchClass: number;  // 0 = C ... 11 = B
+  confidence: number;  // 0-1, 1 is a perfectly periodic signal
+}
+
+export const NO_PITCH: PitchInfo = { detected: false, frequency: 0, note: 0, cents: 0, pitchClass: 0, confidence: 0 };
+
+export interface PitchDetectorOptions {
+  // Lower is stricter; YIN's paper suggests 0.1-0.15
+  threshold?: number;
+  minFrequency?: number;
+  maxFrequency?: number;
+  // RMS below this is treated as silence and skipped
+  minLevel?: number;
+}
+
+// Wide enough for bass voices up to a soprano's top notes and whistling
+const DEFAULT_OPTIONS: Required<PitchDetectorOptions> = {
+  threshold: 0.15,
+  minFrequency: 60,
+  maxFrequency: 1600,
+  minLevel: 0.01,
+};
+
+export const createPitchDetector = (options: PitchDetectorOptions = {}) => {
+  const { threshold, minFrequency, maxFrequency, minLevel } = { ...DEFAULT_OPTIONS, ...options };
+  let difference = new Float32Array(0);
+  const info: PitchInfo = { ...NO_PITCH };
+
+  const miss = () => Object.assign(info, NO_PITCH);
+
+  // Returns a shared object that's overwritten on the next call
+  return (samples: Float32Array, sampleRate: number): PitchInfo => {
+    const tauMax = Math.min(Math.floor(sampleRate / minFrequency), Math.floor(samples.length / 2));
+    const tauMin = Math.max(2, Math.floor(sampleRate / maxFrequency));
+    const windowSize = samples.length - tauMax;
+    if (tauMax <= tauMin) return miss();
+
+    let power = 0;
+    for (let i = 0; i < windowSize; i++) power += samples[i] * samples[i];
+    if (Math.sqrt(power / windowSize) < minLevel) return miss();
+
+    if (difference.length !== tauMax + 1) difference = new Float32Array(tauMax + 1);
+
+    // Difference function, then normalised by its running mean so lag 0
+    // doesn't win and the threshold means the same at every lag
+    difference[0] = 1;
+    let runningSum = 0;
+    for (let tau = 1; tau <= tauMax; tau++) {
+      let sum = 0;
+      for (let i = 0; i < windowSize; i++) {
+        const delta = samples[i] - samples[i + tau];
+        sum += delta * delta;
+      }
+      runningSum += sum;
+      difference[tau] = runningSum > 0 ? (sum * tau) / runningSum : 1;
+    }
+
+    // First dip under the threshold, followed down to its minimum; failing
+    // that, the deepest dip overall
+    let best = -1;
+    for (let tau = tauMin; tau < tauMax; tau++) {
+      if (difference[tau] < threshold) {
+        while (tau + 1 < tauMax && difference[tau + 1] < difference[tau]) tau++;
+        best = tau;
+        break;
+      }
+    }
+    if (best < 0) {
+      best = tauMin;
+      for (let tau = tauMin + 1; tau < tauMax; tau++) {
+        if (difference[tau] < difference[best]) best = tau;
+      }
+    }
+
+    const confidence = Math.max(0, 1 - difference[best]);
+    if (confidence < 1 - threshold * 2) return miss();
+
+    // Parabolic interpolation for a sub-sample lag
+    const previous = difference[best - 1];
+    const next = difference[best + 1] ?? difference[best];
+    const curvature = previous + next - 2 * difference[best];
+    const lag = curvature > 0 ? best + (previous - next) / (2 * curvature) : best;
+
+    const frequency = sampleRate / lag;
+    const exact = frequencyToMidi(frequency);
+    const note = Math.round(exact);
+
+    info.detected = true;
+    info.frequency = frequency;
+    info.note = note;
+    info.cents = Math.round((exact - note) * 100);
+    info.pitchClass = pitchClass(note);
+    info.confidence = confidence;
+    return info;
+  };
+};
+
+export type PitchDetector = ReturnType<typeof createPitchDetector>;
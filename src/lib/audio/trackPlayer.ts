@@ -0,0 +1,154 @@
+export const SUPPORTED_AUDIO_EXTENSIONS = ['mp3', 'wav', 'ogg', 'oga', 'flac'];
+
+export const isSupportedAudioFile = (file: File) => {
+  if (file.type.startsWith('audio/')) return true;
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return SUPPORTED_AUDIO_EXTENSIONS.includes(extension);
+};
+
+export const decodeAudioFile = async (context: BaseAudioContext, file: File) => {
+  const data = await file.arrayBuffer();
+  return context.decodeAudioData(data);
+};
+
+// Peak amplitude per bin across all channels, for drawing a waveform overview
+export const computePeaks = (buffer: AudioBuffer, bins: number) => {
+  const peaks = new Float32Array(bins);
+  const samplesPerBin = Math.max(1, Math.floor(buffer.length / bins));
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const samples = buffer.getChannelData(channel);
+    for (let bin = 0; bin < bins; bin++) {
+      const start = bin * samplesPerBin;
+      const end = Math.min(start + samplesPerBin, samples.length);
+      let peak = peaks[bin];
+      for (let i = start; i < end; i++) {
+        const value = Math.abs(samples[i]);
+        if (value > peak) peak = value;
+      }
+      peaks[bin] = peak;
+    }
+  }
+
+  return peaks;
+};
+
+export interface TrackPlayer {
+  readonly buffer: AudioBuffer;
+  readonly duration: number;
+  play: () => void;
+  pause: () => void;
+  seek: (time: number) => void;
+  setLoop: (loop: boolean) => void;
+  getPosition: () => number;
+  isPlaying: () => boolean;
+  isLooping: () => boolean;
+  // Called whenever play state, loop or position jumps; returns an unsubscribe
+  subscribe: (listener: () => void) => () => void;
+  dispose: () => void;
+}
+
+// AudioBufferSourceNodes are single-use, so every play or seek starts a new
+// one from the stored offset
+export const createTrackPlayer = (
+  context: BaseAudioContext,
+  buffer: AudioBuffer,
+  destination: AudioNode
+): TrackPlayer => {
+  const listeners = new Set<() => void>();
+  let source: AudioBufferSourceNode | null = null;
+  let offset = 0;      // position in the track when playback (re)started
+  let startedAt = 0;   // context time when playback (re)started
+  let playing = false;
+  let loop = false;
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const getPosition = () => {
+    if (!playing) return offset;
+    const elapsed = offset + context.currentTime - startedAt;
+    return loop ? elapsed % buffer.duration : Math.min(elapsed, buffer.duration);
+  };
+
+  const stopSource = () => {
+    if (!source) return;
+    source.onended = null;
+    source.stop();
+    source.disconnect();
+    source = null;
+  };
+
+  const play = () => {
+    if (playing) return;
+    if (offset >= buffer.duration) offset = 0;
+
+    source = context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = loop;
+    source.connect(destination);
+    source.onended = () => {
+      // Only fires on its own when a non-looping track runs out
+      source?.disconnect();
+      source = null;
+      playing = false;
+      offset = 0;
+      notify();
+    };
+    source.start(0, offset);
+    startedAt = context.currentTime;
+    playing = true;
+    notify();
+  };
+
+  const pause = () => {
+    if (!playing) return;
+    offset = getPosition();
+    stopSource();
+    playing = false;
+    notify();
+  };
+
+  const seek = (time: number) => {
+    const wasPlaying = playing;
+    if (wasPlaying) {
+      stopSource();
+      playing = false;
+    }
+    offset = Math.max(0, Math.min(time, buffer.duration));
+    if (wasPlaying) {
+      play();
+    } else {
+      notify();
+    }
+  };
+
+  const setLoop = (value: boolean) => {
+    // Rebase the offset first so the position stays continuous
+    offset = getPosition();
+    startedAt = context.currentTime;
+    loop = value;
+    if (source) source.loop = value;
+    notify();
+  };
+
+  return {
+    buffer,
+    duration: buffer.duration,
+    play,
+    pause,
+    seek,
+    setLoop,
+    getPosition,
+    isPlaying: () => playing,
+    isLooping: () => loop,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    dispose: () => {
+      stopSource();
+      playing = false;
+      listeners.clear();
+    },
+  };
+};
@@ -0,0 +1,122 @@
+import { scheduleAttack, scheduleRelease } from './envelope';
+import { midiToFrequency } from './notes';
+import { createPatchOscillator, trackedCutoff, type SynthPatch } from './patch';
+
+// Peak gain a voice reaches at the end of its attack
+export const VOICE_PEAK = 0.8;
+
+// Time constant of the pitch slide when a legato note takes over a voice
+const LEGATO_GLIDE = 0.03;
+
+export interface SynthVoice {
+  note: number;
+  oscillators: OscillatorNode[];
+  filter: BiquadFilterNode;
+  gain: GainNode;
+  // Schedule the release stage, optionally shorter than the patch's; the
+  // nodes free themselves once it has played out. Returns the time the voice
+  // falls silent.
+  release: (time: number, duration?: number) => number;
+  // Slide to another note without restarting the envelopes
+  glide: (note: number, time: number) => void;
+  // Pitch bend, in cents, on top of each oscillator's own detune
+  bend: (cents: number, time: number) => void;
+}
+
+// Build and start one voice: patch oscillators through the filter into an
+// enveloped gain
+export const createVoice = (
+  context: BaseAudioContext,
+  destination: AudioNode,
+  patch: SynthPatch,
+  note: number,
+  velocity: number,
+  startTime: number,
+  detune = 0
+): SynthVoice => {
+  const nyquist = context.sampleRate / 2;
+  const cutoffFor = (target: number) =>
+    Math.min(nyquist, Math.max(10, trackedCutoff(patch.filter, target)));
+
+  const filter = context.createBiquadFilter();
+  filter.type = patch.filter.type;
+  filter.frequency.setValueAtTime(cutoffFor(note), startTime);
+  filter.Q.setValueAtTime(patch.filter.resonance, startTime);
+
+  const gain = context.createGain();
+  filter.connect(gain);
+  gain.connect(destination);
+
+  const sources = patch.oscillators
+    .filter(settings => settings.level > 0)
+    .map(settings => {
+      const oscillator = createPatchOscillator(
+        context,
+        patch,
+        settings.waveform,
+        midiToFrequency(note + settings.octave * 12)
+      );
+      oscillator.detune.setValueAtTime(settings.detune + detune, startTime);
+      const level = context.createGain();
+      level.gain.value = settings.level;
+      oscillator.connect(level);
+      level.connect(filter);
+      oscillator.start(startTime);
+      return { oscillator, level, settings };
+    });
+
+  scheduleAttack(gain.gain, patch.envelope, VOICE_PEAK * velocity, startTime);
+  // The filter envelope moves detune, in cents, so a linear ramp is an even
+  // sweep in pitch whichever way it goes
+  const filterEnvelope = { ...patch.filter.envelope, curve: 'linear' as const };
+  scheduleAttack(filter.detune, filterEnvelope, patch.filter.envelopeAmount * 1200, startTime);
+
+  let stopTime = Infinity;
+
+  const voice: SynthVoice = {
+    note,
+    oscillators: sources.map(source => source.oscillator),
+    filter,
+    gain,
+    release: (time, duration = patch.envelope.release) => {
+      const endTime = scheduleRelease(gain.gain, { ...patch.envelope, release: duration }, time);
+      scheduleRelease(filter.detune, filterEnvelope, time);
+      // An oscillator can only be stopped once; releasing again, as when a
+      // fading voice is stolen, just brings the silence forward
+      if (stopTime === Infinity) {
+        stopTime = endTime;
+        // With every oscillator silent there is nothing to wait for
+        if (!sources.length) {
+          filter.disconnect();
+          gain.disconnect();
+        }
+        sources.forEach(({ oscillator, level }, i) => {
+          oscillator.stop(endTime);
+          oscillator.onended = () => {
+            oscillator.disconnect();
+            level.disconnect();
+            // The last oscillator to end takes the shared nodes with it
+            if (i === sources.length - 1) {
+              filter.disconnect();
+              gain.disconnect();
+            }
+          };
+        });
+      }
+      return Math.min(endTime, stopTime);
+    },
+    glide: (next, time) => {
+      voice.note = next;
+      sources.forEach(({ oscillator, settings }) => {
+        oscillator.frequency.setTargetAtTime(midiToFrequency(next + settings.octave * 12), time, LEGATO_GLIDE);
+      });
+      filter.frequency.setTargetAtTime(cutoffFor(next), time, LEGATO_GLIDE);
+    },
+    bend: (cents, time) => {
+      sources.forEach(({ oscillator, settings }) => {
+        oscillator.detune.setTargetAtTime(settings.detune + cents, time, 0.01);
+      });
+    },
+  };
+  return voice;
+};
@@ -0,0 +1,304 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { FakeAudioContext, type FakeAudioNode } from '@/test/fakeAudio';
+import { DEFAULT_PATCH, type SynthPatch, type Voicing } from './patch';
+import { createVoiceManager, type ManagedVoice, type VoiceManager } from './voiceManager';
+
+const patchWith = (voicing: Partial<Voicing>): SynthPatch => ({
+  ...DEFAULT_PATCH,
+  voicing: { ...DEFAULT_PATCH.voicing, ...voicing },
+});
+
+let context: FakeAudioContext;
+let events: string[];
+let manager: VoiceManager;
+
+const setUp = () => {
+  context = new FakeAudioContext();
+  events = [];
+  manager = createVoiceManager(context.asContext(), context.destination as unknown as AudioNode, {
+    events: {
+      noteStart: (note, _velocity, time) => events.push(`start ${note} @${time}`),
+      noteStop: (note, time) => events.push(`stop ${note} @${time}`),
+      voiceStart: (time) => events.push(`voice+ @${time}`),
+      voiceEnd: (time) => events.push(`voice- @${time}`),
+    },
+  });
+};
+
+const notes = () => manager.voices().map(voice => voice.note);
+const find = (note: number) => manager.voices().find(voice => voice.note === note)!;
+// When the voice's oscillators were told to stop, if they were
+const stopTime = (voice: ManagedVoice) =>
+  (voice.voice.oscillators[0] as unknown as FakeAudioNode).stopTime as number | null;
+
+describe('createVoiceManager', () => {
+  beforeEach(setUp);
+
+  it('builds a voice per note on the given context', () => {
+    const patch = patchWith({ maxVoices: 4 });
+    manager.noteOn(patch, 60, 1, 0);
+    manager.noteOn(patch, 64, 1, 0.1);
+
+    expect(notes()).toEqual([60, 64]);
+    expect(context.nodesOf('oscillator')).toHaveLength(2);
+    expect(events).toEqual(['voice+ @0', 'start 60 @0', 'voice+ @0.1', 'start 64 @0.1']);
+  });
+
+  it('releases a note on noteOff and reports whether it was held', () => {
+    const patch = patchWith({ maxVoices: 4 });
+    manager.noteOn(patch, 60, 1, 0);
+
+    expect(manager.noteOff(60, 1)).toBe(true);
+    expect(manager.noteOff(60, 1.1)).toBe(false);
+    expect(find(60).releaseTime).toBe(1);
+    expect(stopTime(find(60))).toBe(1 + patch.envelope.release);
+    expect(events.slice(-2)).toEqual(['stop 60 @1', `voice- @${1 + patch.envelope.release}`]);
+  });
+
+  describe('polyphony', () => {
+    it('never sounds more voices than the patch allows', () => {
+      const patch = patchWith({ maxVoices: 3 });
+      [60, 62, 64, 65, 67].forEach((note, i) => manager.noteOn(patch, note, 1, i * 0.1));
+
+      expect(notes()).toEqual([64, 65, 67]);
+      expect(context.nodesOf('oscillator')).toHaveLength(5);
+    });
+
+    it('frees voices once their release has played out', () => {
+      const patch = patchWith({ maxVoices: 2 });
+      manager.noteOn(patch, 60, 1, 0);
+      manager.noteOn(patch, 64, 1, 0);
+      manager.noteOff(60, 0.5);
+
+      manager.noteOn(patch, 67, 1, 0.5 + patch.envelope.release);
+      expect(notes()).toEqual([64, 67]);
+      // The released voice ran out on its own, so the held one wasn't stolen
+      expect(find(64).releaseTime).toBeNull();
+    });
+
+    it('treats a voice limit below one as one', () => {
+      const patch = patchWith({ maxVoices: 0 });
+      manager.noteOn(patch, 60, 1, 0);
+      manager.noteOn(patch, 64, 1, 0.1);
+      expect(notes()).toEqual([64]);
+    });
+  });
+
+  describe('stealing', () => {
+    it('takes the oldest voice', () => {
+      const patch = patchWith({ maxVoices: 2, steal: 'oldest' });
+      manager.noteOn(patch, 60, 0.2, 0);
+      manager.noteOn(patch, 64, 1, 0.1);
+      const oldest = find(60);
+
+      manager.noteOn(patch, 67, 1, 1);
+      expect(notes()).toEqual([64, 67]);
+      // Faded out quickly rather than over the patch's release
+      expect(stopTime(oldest)).toBeCloseTo(1.01);
+      expect(events).toContain('stop 60 @1');
+    });
+
+    it('takes the quietest voice', () => {
+      const patch = patchWith({ maxVoices: 2, steal: 'quietest' });
+      manager.noteOn(patch, 60, 1, 0);
+      manager.noteOn(patch, 64, 0.2, 0.1);
+
+      manager.noteOn(patch, 67, 1, 1);
+      expect(notes()).toEqual([60, 67]);
+    });
+
+    it('takes a voice already playing the same note', () => {
+      const patch = patchWith({ maxVoices: 3, steal: 'same-note' });
+      manager.noteOn(patch, 60, 1, 0);
+      manager.noteOn(patch, 64, 1, 0.1);
+      manager.noteOn(patch, 67, 1, 0.2);
+      manager.noteOff(60, 0.5);
+      manager.noteOff(64, 0.6);
+
+      // Oldest would take the releasing 60; same-note takes the releasing 64
+      manager.noteOn(patch, 64, 1, 0.7);
+      expect(notes()).toEqual([60, 67, 64]);
+    });
+
+    it('falls back to the oldest voice when no voice has the note', () => {
+      const patch = patchWith({ maxVoices: 2, steal: 'same-note' });
+      manager.noteOn(patch, 60, 1, 0);
+      manager.noteOn(patch, 64, 1, 0.1);
+
+      manager.noteOn(patch, 67, 1, 1);
+      expect(notes()).toEqual([64, 67]);
+    });
+
+    it('takes releasing voices before held ones', () => {
+      const patch = patchWith({ maxVoices: 2, steal: 'oldest' });
+      manager.noteOn(patch, 60, 1, 0);
+      manager.noteOn(patch, 64, 1, 0.1);
+      manager.noteOff(64, 0.2);
+
+      manager.noteOn(patch, 67, 1, 0.3);
+      expect(notes()).toEqual([60, 67]);
+    });
+
+    it('brings forward the end of a stolen voice that was already releasing', () => {
+      const patch = patchWith({ maxVoices: 1 });
+      manager.noteOn(patch, 60, 1, 0);
+      manager.noteOff(60, 0.2);
+      const releasing = find(60);
+
+      manager.noteOn(patch, 64, 1, 0.3);
+      // Its oscillators were already told when to stop; the gain ramp is
+      // what gets cut short, and its end isn't reported twice
+      const gain = (releasing.voice.gain as unknown as FakeAudioNode).id;
+      expect(stopTime(releasing)).toBe(0.2 + patch.envelope.release);
+      expect(context.callsTo(gain)).toContainEqual([`${gain}.gain`, 'linearRampToValueAtTime', 0, 0.31]);
+      expect(events.filter(event => event.startsWith('voice-'))).toHaveLength(1);
+    });
+
+    it('does not release the replacement when the stolen note is let go', () => {
+      const patch = patchWith({ maxVoices: 1 });
+      manager.noteOn(patch, 60, 1, 0);
+      manager.noteOn(patch, 64, 1, 0.1);
+      const replacement = find(64);
+
+      expect(manager.noteOff(60, 0.5)).toBe(false);
+      expect(replacement.releaseTime).toBeNull();
+      expect(stopTime(replacement)).toBeNull();
+      expect(events).not.toContain('stop 64 @0.5');
+    });
+  });
+
+  describe('retrigger', () => {
+    it('restarts a held note with a fresh voice', () => {
+      const patch = patchWith({ maxVoices: 4, mode: 'retrigger' });
+      manager.noteOn(patch, 60, 1, 0);
+      const first = find(60);
+
+      manager.noteOn(patch, 60, 0.5, 0.5);
+      expect(first.releaseTime).toBe(0.5);
+      expect(manager.voices().filter(voice => voice.note === 60 && voice.releaseTime === null)).toHaveLength(1);
+      expect(context.nodesOf('oscillator')).toHaveLength(2);
+    });
+
+    it('starts a new envelope when stealing', () => {
+      const patch = patchWith({ maxVoices: 1, mode: 'retrigger' });
+      manager.noteOn(patch, 60, 1, 0);
+      manager.noteOn(patch, 64, 1, 0.5);
+
+      expect(context.nodesOf('oscillator')).toHaveLength(2);
+      expect(find(64).startTime).toBe(0.5);
+    });
+  });
+
+  describe('legato', () => {
+    const patch = patchWith({ maxVoices: 1, mode: 'legato' });
+
+    it('glides the held voice to the new note without a new envelope', () => {
+      manager.noteOn(patch, 60, 1, 0);
+      const voice = find(60);
+
+      manager.noteOn(patch, 64, 1, 0.5);
+      expect(manager.voices()).toEqual([voice]);
+      expect(voice.note).toBe(64);
+      expect(voice.startTime).toBe(0);
+      expect(context.nodesOf('oscillator')).toHaveLength(1);
+      expect(context.callsTo(context.nodesOf('oscillator')[0].id)).toContainEqual(
+        ['oscillator0.frequency', 'setTargetAtTime', expect.closeTo(329.63, 1), 0.5, 0.03]
+      );
+      expect(events).toEqual(['voice+ @0', 'start 60 @0', 'stop 60 @0.5', 'start 64 @0.5']);
+    });
+
+    it('ignores a repeat of the held note', () => {
+      manager.noteOn(patch, 60, 1, 0);
+      manager.noteOn(patch, 60, 1, 0.5);
+      expect(manager.voices()).toHaveLength(1);
+      expect(find(60).releaseTime).toBeNull();
+    });
+
+    it('starts a fresh voice once the previous one is released', () => {
+      manager.noteOn(patch, 60, 1, 0);
+      manager.noteOff(60, 0.5);
+      manager.noteOn(patch, 64, 1, 0.6);
+
+      expect(notes()).toEqual([64]);
+      expect(context.nodesOf('oscillator')).toHaveLength(2);
+    });
+
+    it('slides back down the stack of held notes as they are let go', () => {
+      manager.noteOn(patch, 60, 1, 0);
+      manager.noteOn(patch, 64, 1, 0.1);
+      manager.noteOn(patch, 67, 1, 0.2);
+      const voice = find(67);
+
+      expect(manager.noteOff(67, 0.3)).toBe(true);
+      expect(voice.note).toBe(64);
+      expect(manager.noteOff(64, 0.4)).toBe(true);
+      expect(voice.note).toBe(60);
+      expect(voice.releaseTime).toBeNull();
+
+      expect(manager.noteOff(60, 0.5)).toBe(true);
+      expect(voice.releaseTime).toBe(0.5);
+      expect(context.nodesOf('oscillator')).toHaveLength(1);
+      expect(events.filter(event => event.startsWith('start') || event.startsWith('stop')).slice(5)).toEqual([
+        'stop 67 @0.3', 'start 64 @0.3', 'stop 64 @0.4', 'start 60 @0.4', 'stop 60 @0.5',
+      ]);
+    });
+
+    it('drops a note from the stack when it is let go underneath', () => {
+      manager.noteOn(patch, 60, 1, 0);
+      manager.noteOn(patch, 64, 1, 0.1);
+      manager.noteOn(patch, 67, 1, 0.2);
+      const voice = find(67);
+
+      expect(manager.noteOff(64, 0.3)).toBe(true);
+      expect(voice.note).toBe(67);
+      manager.noteOff(67, 0.4);
+      expect(voice.note).toBe(60);
+      expect(voice.releaseTime).toBeNull();
+    });
+
+    it('does not double up a note struck again while it is on the stack', () => {
+      manager.noteOn(patch, 60, 1, 0);
+      manager.noteOn(patch, 64, 1, 0.1);
+      manager.noteOn(patch, 60, 1, 0.2);
+      const voice = find(60);
+
+      expect(voice.stack).toEqual([64]);
+      manager.noteOff(60, 0.3);
+      expect(voice.note).toBe(64);
+      manager.noteOff(64, 0.4);
+      expect(voice.releaseTime).toBe(0.4);
+    });
+
+    describe('with the default voice limit', () => {
+      const defaultLegato = patchWith({ mode: 'legato' });
+
+      it('plays one voice that glides between held notes', () => {
+        expect(defaultLegato.voicing.maxVoices).toBeGreaterThan(1);
+        manager.noteOn(defaultLegato, 60, 1, 0);
+        manager.noteOn(defaultLegato, 64, 1, 0.1);
+        manager.noteOn(defaultLegato, 67, 1, 0.2);
+        const voice = find(67);
+
+        expect(manager.voices()).toEqual([voice]);
+        expect(voice.startTime).toBe(0);
+        expect(voice.stack).toEqual([60, 64]);
+        expect(context.nodesOf('oscillator')).toHaveLength(1);
+
+        manager.noteOff(67, 0.3);
+        expect(voice.note).toBe(64);
+        expect(voice.releaseTime).toBeNull();
+      });
+
+      it('starts a new voice over the release tail of the last one', () => {
+        manager.noteOn(defaultLegato, 60, 1, 0);
+        manager.noteOff(60, 0.5);
+        manager.noteOn(defaultLegato, 64, 1, 0.55);
+
+        expect(notes()).toEqual([60, 64]);
+        expect(find(60).releaseTime).toBe(0.5);
+        expect(find(64).releaseTime).toBeNull();
+        expect(find(64).startTime).toBe(0.55);
+      });
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { envelopeLevel, type Envelope } from './envelope';
+import type { StealPolicy, SynthPatch } from './patch';
+import { createVoice, VOICE_PEAK, type SynthVoice } from './voice';
+
+// Polyphony for the synth: which voices are sounding, which one makes way
+// when a note arrives and every voice is busy, and whether notes restart the
+// envelope. Every call takes an explicit time and only the context's node
+// factories are used, so it runs the same against an OfflineAudioContext or a
+// fake one.
+
+export interface ManagedVoice {
+  voice: SynthVoice;
+  note: number;
+  velocity: number;
+  envelope: Envelope;
+  startTime: number;
+  releaseTime: number | null;  // null while the note is held
+  endTime: number;             // Infinity until released
+  // Notes this voice took over from in legato and which are still held,
+  // most recent last; releasing the current note slides back to the top one
+  stack: number[];
+}
+
+// Reports what the manager did, stamped with the audio time it happens at.
+// Voice start/end track how many voices are audible; note start/stop track
+// which notes are held, which legato and stealing can change without a
+// matching noteOn or noteOff.
+export interface VoiceManagerEvents {
+  noteStart?: (note: number, velocity: number, time: number) => void;
+  noteStop?: (note: number, time: number) => void;
+  voiceStart?: (time: number) => void;
+  voiceEnd?: (time: number) => void;
+}
+
+export interface VoiceManagerOptions {
+  events?: VoiceManagerEvents;
+  // Swappable so allocation can be exercised without real voices
+  createVoice?: typeof createVoice;
+}
+
+export interface VoiceManager {
+  noteOn: (patch: SynthPatch, note: number, velocity: number, time: number, detune?: number) => void;
+  // Returns false if the note wasn't held
+  noteOff: (note: number, time: number) => boolean;
+  // Every voice still sounding, held or releasing
+  voices: () => ManagedVoice[];
+}
+
+// Long enough not to click, short enough not to smear the new note
+const STEAL_RELEASE = 0.01;
+
+export const createVoiceManager = (
+  context: BaseAudioContext,
+  destination: AudioNode,
+  options: VoiceManagerOptions = {}
+): VoiceManager => {
+  const { events = {}, createVoice: makeVoice = createVoice } = options;
+  let voices: ManagedVoice[] = [];
+
+  const prune = (time: number) => {
+    voices = voices.filter(voice => voice.endTime > time);
+  };
+
+  const findHeld = (note: number) => voices.find(voice => voice.note === note && voice.releaseTime === null);
+
+  // Forget a held note a legato voice has moved on from. Returns false if no
+  // voice had it.
+  const unstack = (note: number) => {
+    const voice = voices.find(({ stack, releaseTime }) => releaseTime === null && stack.includes(note));
+    if (!voice) return false;
+    voice.stack = voice.stack.filter(stacked => stacked !== note);
+    return true;
+  };
+
+  const release = (voice: ManagedVoice, time: number, duration?: number) => {
+    const wasHeld = voice.releaseTime === null;
+    const endTime = voice.voice.release(time, duration);
+    if (wasHeld) {
+      voice.releaseTime = time;
+      events.noteStop?.(voice.note, time);
+      // A voice stolen during its release already reported its end
+      events.voiceEnd?.(endTime);
+    }
+    voice.endTime = endTime;
+  };
+
+  // Voices already releasing make way before held ones
+  const pickVictim = (note: number, time: number, policy: StealPolicy) => {
+    if (policy === 'same-note') {
+      const same = voices.find(voice => voice.note === note);
+      if (same) return same;
+    }
+
+    const releasing = voices.filter(voice => voice.releaseTime !== null);
+    const candidates = releasing.length ? releasing : voices;
+    const score = policy === 'quietest'
+      ? (voice: ManagedVoice) =>
+        envelopeLevel(voice.envelope, VOICE_PEAK * voice.velocity, voice.startTime, voice.releaseTime, time)
+      : (voice: ManagedVoice) => voice.startTime;
+
+    return candidates.reduce((best, voice) => (score(voice) < score(best) ? voice : best));
+  };
+
+  const noteOn = (patch: SynthPatch, note: number, velocity: number, time: number, detune = 0) => {
+    const { maxVoices, steal, mode } = patch.voicing;
+    prune(time);
+    unstack(note);
+
+    if (mode === 'legato') {
+      // At most one voice is ever held, whatever the voice limit
+      const mono = voices.find(voice => voice.releaseTime === null);
+      if (mono) {
+        if (mono.note === note) return;
+        events.noteStop?.(mono.note, time);
+        mono.stack.push(mono.note);
+        mono.note = note;
+        mono.voice.glide(note, time);
+        events.noteStart?.(note, velocity, time);
+        return;
+      }
+    } else {
+      const held = findHeld(note);
+      if (held) release(held, time);
+    }
+
+    while (voices.length >= Math.max(1, maxVoices)) {
+      const victim = pickVictim(note, time, steal);
+      release(victim, time, STEAL_RELEASE);
+      voices = voices.filter(voice => voice !== victim);
+    }
+
+    voices.push({
+      voice: makeVoice(context, destination, patch, note, velocity, time, detune),
+      note,
+      velocity,
+      envelope: patch.envelope,
+      startTime: time,
+      releaseTime: null,
+      endTime: Infinity,
+      stack: [],
+    });
+    events.voiceStart?.(time);
+    events.noteStart?.(note, velocity, time);
+  };
+
+  const noteOff = (note: number, time: number) => {
+    const held = findHeld(note);
+    if (!held) return unstack(note);
+
+    const previous = held.stack.pop();
+    if (previous === undefined) {
+      release(held, time);
+      return true;
+    }
+    events.noteStop?.(note, time);
+    held.note = previous;
+    held.voice.glide(previous, time);
+    events.noteStart?.(previous, held.velocity, time);
+    return true;
+  };
+
+  return {
+    noteOn,
+    noteOff,
+    voices: () => voices,
+  };
+};
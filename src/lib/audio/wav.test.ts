@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWav, type PcmSource } from './wav';
+
+const createSource = (channels: number[][], sampleRate = 44100): PcmSource => ({
+  numberOfChannels: channels.length,
+  sampleRate,
+  length: channels[0].length,
+  getChannelData: (channel) => Float32Array.from(channels[channel]),
+});
+
+const readString = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+
+const readInt24 = (view: DataView, offset: number) => {
+  const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getUint8(offset + 2) << 16);
+  return value & 0x800000 ? value - 0x1000000 : value;
+};
+
+describe('encodeWav', () => {
+  it('writes the RIFF, fmt and data headers', () => {
+    const view = new DataView(encodeWav(createSource([[0, 0, 0], [0, 0, 0]], 48000), 24));
+
+    expect(readString(view, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + 3 * 2 * 3);
+    expect(readString(view, 8, 4)).toBe('WAVE');
+
+    expect(readString(view, 12, 4)).toBe('fmt ');
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(48000);
+    expect(view.getUint32(28, true)).toBe(48000 * 2 * 3);
+    expect(view.getUint16(32, true)).toBe(6);
+    expect(view.getUint16(34, true)).toBe(24);
+
+    expect(readString(view, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(3 * 2 * 3);
+    expect(view.byteLength).toBe(44 + 18);
+  });
+
+  it('encodes 16-bit samples little-endian and clips at ±1', () => {
+    const buffer = encodeWav(createSource([[0.5, -0.25, 1.5, -2, 1]]), 16);
+    const view = new DataView(buffer);
+
+    expect(Array.from({ length: 5 }, (_, i) => view.getInt16(44 + i * 2, true)))
+      .toEqual([16384, -8192, 32767, -32767, 32767]);
+    // 0.5 is 0x4000: low byte first
+    expect(new Uint8Array(buffer, 44, 2)).toEqual(new Uint8Array([0x00, 0x40]));
+  });
+
+  it('encodes 24-bit samples little-endian and clips at ±1', () => {
+    const buffer = encodeWav(createSource([[0.5, -1, 3]]), 24);
+    const view = new DataView(buffer);
+
+    expect([0, 1, 2].map(i => readInt24(view, 44 + i * 3))).toEqual([4194304, -8388607, 8388607]);
+    // 0.5 is 0x400000
+    expect(new Uint8Array(buffer, 44, 3)).toEqual(new Uint8Array([0x00, 0x00, 0x40]));
+  });
+
+  it('interleaves channels frame by frame', () => {
+    const view = new DataView(encodeWav(createSource([[0.25, 0.5], [-0.25, -0.75]]), 16));
+    expect([0, 1, 2, 3].map(i => view.getInt16(44 + i * 2, true))).toEqual([8192, -8192, 16384, -24575]);
+  });
+
+  it('produces identical bytes for identical input', () => {
+    const source = createSource([[0.1, -0.3, 0.7], [0.2, 0.4, -0.9]]);
+    expect(new Uint8Array(encodeWav(source, 24))).toEqual(new Uint8Array(encodeWav(source, 24)));
+  });
+});
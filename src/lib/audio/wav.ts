@@ -0,0 +1,60 @@
+export type WavBitDepth = 16 | 24;
+
+// Anything shaped like an AudioBuffer can be encoded
+export type PcmSource = Pick<AudioBuffer, 'numberOfChannels' | 'sampleRate' | 'length' | 'getChannelData'>;
+
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+};
+
+// Encode as an uncompressed PCM WAV file: a RIFF header with one "fmt " and
+// one "data" chunk, samples interleaved and little-endian. Values are clipped
+// to [-1, 1] and rounded without dither, so the output is deterministic.
+export const encodeWav = (source: PcmSource, bitDepth: WavBitDepth = 16) => {
+  const { numberOfChannels: channels, sampleRate, length } = source;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = channels * bytesPerSample;
+  const dataSize = length * blockAlign;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);                       // fmt chunk size
+  view.setUint16(20, 1, true);                        // format 1 = integer PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);  // byte rate
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const channelData = Array.from({ length: channels }, (_, channel) => source.getChannelData(channel));
+  const maxValue = bitDepth === 16 ? 0x7fff : 0x7fffff;
+  let offset = 44;
+
+  for (let i = 0; i < length; i++) {
+    for (let channel = 0; channel < channels; channel++) {
+      const sample = Math.max(-1, Math.min(1, channelData[channel][i]));
+      const value = Math.round(sample * maxValue);
+
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return buffer;
+};
@@ -0,0 +1,18 @@
+// Save a blob through a temporary link, the only way to name the download
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Timestamped filename such as "musical-canvas-2024-05-01-1432.mid"
+export const timestampedFilename = (extension: string) => {
+  const stamp = new Date().toISOString().slice(0, 16).replace('T', '-').replace(':', '');
+  return `musical-canvas-${stamp}.${extension}`;
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { createFrameSource } from './frameSource';
+
+describe('createFrameSource', () => {
+  it('wants pitch while any request is outstanding', () => {
+    const source = createFrameSource();
+    expect(source.wantsPitch()).toBe(false);
+
+    const readout = source.requestPitch();
+    const visualizer = source.requestPitch();
+    readout();
+    expect(source.wantsPitch()).toBe(true);
+
+    visualizer();
+    expect(source.wantsPitch()).toBe(false);
+  });
+
+  it('ignores a request withdrawn twice', () => {
+    const source = createFrameSource();
+    const first = source.requestPitch();
+    source.requestPitch();
+
+    first();
+    first();
+    expect(source.wantsPitch()).toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+import { NO_BEAT, type BeatInfo } from '@/lib/audio/beat';
+import { NO_PITCH, type PitchInfo } from '@/lib/audio/pitch';
+
+// Analyser output for one animation frame. The arrays are owned and reused
+// by the publisher: read them during the frame, copy if you need to keep them.
+export interface AnalyserFrame {
+  // Frequency bins after the gain stage: 0-255, and unclipped from 0 up
+  frequency: Uint8Array;
+  spectrum: Float32Array;
+  // Time-domain samples in -1..1: the mono mix and each stereo channel
+  waveform: Float32Array;
+  left: Float32Array;
+  right: Float32Array;
+  sampleRate: number;
+  // Tempo and beat phase, tracked from onsets in the spectrum
+  beat: BeatInfo;
+  // Monophonic pitch of the waveform, for singers and solo instruments
+  pitch: PitchInfo;
+}
+
+export interface FrameSource {
+  getFrame: () => AnalyserFrame | null;
+  publish: (frame: AnalyserFrame) => void;
+  subscribe: (listener: (frame: AnalyserFrame) => void) => () => void;
+  // Pitch tracking is costly, so the publisher only fills in `pitch` while
+  // something has asked for it. Returns a function that withdraws the request.
+  requestPitch: () => () => void;
+  wantsPitch: () => boolean;
+}
+
+// A tiny ref-style store that hands analyser frames from AudioEngine to the
+// visualizer without going through React state, so a new frame never causes
+// a re-render
+export const createFrameSource = (): FrameSource => {
+  let current: AnalyserFrame | null = null;
+  const listeners = new Set<(frame: AnalyserFrame) => void>();
+  let pitchRequests = 0;
+
+  return {
+    getFrame: () => current,
+    publish: (frame) => {
+      current = frame;
+      listeners.forEach(listener => listener(frame));
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    requestPitch: () => {
+      pitchRequests++;
+      let withdrawn = false;
+      return () => {
+        if (withdrawn) return;
+        withdrawn = true;
+        pitchRequests--;
+      };
+    },
+    wantsPitch: () => pitchRequests > 0,
+  };
+};
+
+// Copy a frame into `target`, reusing its arrays when the sizes still match
+export const copyFrame = (frame: AnalyserFrame, target?: AnalyserFrame): AnalyserFrame => {
+  const fits = target &&
+    target.frequency.length === frame.frequency.length &&
+    target.spectrum.length === frame.spectrum.length &&
+    target.waveform.length === frame.waveform.length;
+  const copy = fits ? target : {
+    frequency: new Uint8Array(frame.frequency.length),
+    spectrum: new Float32Array(frame.spectrum.length),
+    waveform: new Float32Array(frame.waveform.length),
+    left: new Float32Array(frame.left.length),
+    right: new Float32Array(frame.right.length),
+    sampleRate: frame.sampleRate,
+    beat: { ...NO_BEAT },
+    pitch: { ...NO_PITCH },
+  };
+
+  copy.frequency.set(frame.frequency);
+  copy.spectrum.set(frame.spectrum);
+  copy.waveform.set(frame.waveform);
+  copy.left.set(frame.left);
+  copy.right.set(frame.right);
+  copy.sampleRate = frame.sampleRate;
+  Object.assign(copy.beat, frame.beat);
+  Object.assign(copy.pitch, frame.pitch);
+  return copy;
+};
+
+// The buffers to list when posting a frame, so it moves instead of copying
+export const frameTransferList = (frame: AnalyserFrame): ArrayBuffer[] => [
+  frame.frequency.buffer as ArrayBuffer,
+  frame.spectrum.buffer as ArrayBuffer,
+  frame.waveform.buffer as ArrayBuffer,
+  frame.left.buffer as ArrayBuffer,
+  frame.right.buffer as ArrayBuffer,
+];
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { keyNote, MAX_OCTAVE, MAX_TRANSPOSE, MIN_OCTAVE } from './keyboard';
+
+describe('keyNote', () => {
+  it('plays middle C on the a key at the default octave', () => {
+    expect(keyNote('a', 4, 0)).toBe(60);
+    expect(keyNote("'", 4, 0)).toBe(77);
+    expect(keyNote('a', 4, -3)).toBe(57);
+  });
+
+  it('ignores keys that are not on the keyboard', () => {
+    expect(keyNote('q', 4, 0)).toBeNull();
+  });
+
+  it('drops notes above G9 at the top of the range', () => {
+    // The a key is C9 at most, so G9 is the highest key that still sounds
+    expect(keyNote('a', MAX_OCTAVE, MAX_TRANSPOSE)).toBe(120);
+    expect(keyNote('g', MAX_OCTAVE, MAX_TRANSPOSE)).toBe(127);
+    expect(keyNote('y', MAX_OCTAVE, MAX_TRANSPOSE)).toBeNull();
+    expect(keyNote("'", MAX_OCTAVE, MAX_TRANSPOSE)).toBeNull();
+  });
+
+  it('drops notes below C-1', () => {
+    expect(keyNote('a', MIN_OCTAVE, -MAX_TRANSPOSE)).toBe(0);
+    expect(keyNote('a', MIN_OCTAVE, -MAX_TRANSPOSE - 1)).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+import { isMidiNote } from '@/lib/audio/notes';
+
+// Computer keyboard layout in the style of a tracker / DAW typing keyboard:
+// the home row plays white keys, the row above it plays the black keys.
+export const KEY_OFFSETS: Record<string, number> = {
+  'a': 0,   // C
+  'w': 1,   // C#
+  's': 2,   // D
+  'e': 3,   // D#
+  'd': 4,   // E
+  'f': 5,   // F
+  't': 6,   // F#
+  'g': 7,   // G
+  'y': 8,   // G#
+  'h': 9,   // A
+  'u': 10,  // A#
+  'j': 11,  // B
+  'k': 12,  // C +1
+  'o': 13,  // C# +1
+  'l': 14,  // D +1
+  'p': 15,  // D# +1
+  ';': 16,  // E +1
+  "'": 17,  // F +1
+};
+
+export const OCTAVE_DOWN_KEY = 'z';
+export const OCTAVE_UP_KEY = 'x';
+export const TRANSPOSE_DOWN_KEY = 'c';
+export const TRANSPOSE_UP_KEY = 'v';
+
+export const MIN_OCTAVE = 0;
+export const MAX_OCTAVE = 8;
+export const DEFAULT_OCTAVE = 4;
+export const MAX_TRANSPOSE = 12;
+
+// MIDI note played by the 'a' key, where octave 4 puts it on middle C
+export const baseNote = (octave: number, transpose: number) => (octave + 1) * 12 + transpose;
+
+// MIDI note a key plays, or null if the key isn't mapped or the octave and
+// transpose push it past the MIDI range; at the top octave the upper keys
+// go silent rather than wrap or pile up on G9
+export const keyNote = (key: string, octave: number, transpose: number) => {
+  if (KEY_OFFSETS[key] === undefined) return null;
+  const note = baseNote(octave, transpose) + KEY_OFFSETS[key];
+  return isMidiNote(note) ? note : null;
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FakeMidiAccess, FakeMidiInput } from '@/test/fakeMidi';
+import { connectMidiInputs, dispatchMidiMessage, listMidiInputs, parseMidiMessage, type MidiInputHandlers } from './input';
+
+const createHandlers = (): MidiInputHandlers => ({
+  onNoteOn: vi.fn(),
+  onNoteOff: vi.fn(),
+  onSustain: vi.fn(),
+  onPitchBend: vi.fn(),
+});
+
+describe('parseMidiMessage', () => {
+  it('decodes note on with normalized velocity', () => {
+    expect(parseMidiMessage([0x90, 60, 127])).toEqual({ type: 'noteOn', channel: 0, note: 60, velocity: 1 });
+  });
+
+  it('treats note on with velocity 0 as note off', () => {
+    expect(parseMidiMessage([0x93, 64, 0])).toEqual({ type: 'noteOff', channel: 3, note: 64 });
+  });
+
+  it('decodes note off', () => {
+    expect(parseMidiMessage([0x80, 60, 40])).toEqual({ type: 'noteOff', channel: 0, note: 60 });
+  });
+
+  it('masks the channel out of the status byte', () => {
+    expect(parseMidiMessage([0x9f, 60, 100])).toMatchObject({ type: 'noteOn', channel: 15 });
+    expect(parseMidiMessage([0x8a, 60, 0])).toMatchObject({ type: 'noteOff', channel: 10 });
+  });
+
+  it('decodes the sustain pedal and ignores other controllers', () => {
+    expect(parseMidiMessage([0xb0, 64, 127])).toEqual({ type: 'sustain', channel: 0, on: true });
+    expect(parseMidiMessage([0xb2, 64, 63])).toEqual({ type: 'sustain', channel: 2, on: false });
+    expect(parseMidiMessage([0xb0, 1, 127])).toBeNull();
+  });
+
+  it('decodes 14-bit pitch bend to -1..1', () => {
+    expect(parseMidiMessage([0xe0, 0x00, 0x40])).toEqual({ type: 'pitchBend', channel: 0, amount: 0 });
+    expect(parseMidiMessage([0xe0, 0x00, 0x00])).toEqual({ type: 'pitchBend', channel: 0, amount: -1 });
+    expect(parseMidiMessage([0xe1, 0x7f, 0x7f])).toMatchObject({ channel: 1, amount: 8191 / 8192 });
+  });
+
+  it('ignores short and unsupported messages', () => {
+    expect(parseMidiMessage([0x90, 60])).toBeNull();
+    expect(parseMidiMessage([0xa0, 60, 10])).toBeNull();
+  });
+});
+
+describe('dispatchMidiMessage', () => {
+  it('calls the handler for each message type', () => {
+    const handlers = createHandlers();
+    dispatchMidiMessage({ type: 'noteOn', channel: 0, note: 60, velocity: 0.5 }, handlers);
+    dispatchMidiMessage({ type: 'noteOff', channel: 0, note: 60 }, handlers);
+    dispatchMidiMessage({ type: 'sustain', channel: 0, on: true }, handlers);
+    dispatchMidiMessage({ type: 'pitchBend', channel: 0, amount: -0.5 }, handlers);
+
+    expect(handlers.onNoteOn).toHaveBeenCalledWith(60, 0.5);
+    expect(handlers.onNoteOff).toHaveBeenCalledWith(60);
+    expect(handlers.onSustain).toHaveBeenCalledWith(true);
+    expect(handlers.onPitchBend).toHaveBeenCalledWith(-0.5);
+  });
+});
+
+describe('connectMidiInputs', () => {
+  it('forwards messages from every input and detaches again', () => {
+    const keys = new FakeMidiInput('a', 'Keys');
+    const pads = new FakeMidiInput('b', 'Pads');
+    const access = new FakeMidiAccess([keys, pads]);
+    const handlers = createHandlers();
+
+    const disconnect = connectMidiInputs(access.asAccess(), 'all', () => handlers);
+    keys.send([0x90, 60, 127]);
+    pads.send([0x80, 62, 0]);
+    expect(handlers.onNoteOn).toHaveBeenCalledWith(60, 1);
+    expect(handlers.onNoteOff).toHaveBeenCalledWith(62);
+
+    disconnect();
+    keys.send([0x90, 64, 127]);
+    expect(handlers.onNoteOn).toHaveBeenCalledTimes(1);
+  });
+
+  it('listens only to the selected input', () => {
+    const keys = new FakeMidiInput('a', 'Keys');
+    const pads = new FakeMidiInput('b', 'Pads');
+    const handlers = createHandlers();
+
+    connectMidiInputs(new FakeMidiAccess([keys, pads]).asAccess(), 'b', () => handlers);
+    keys.send([0x90, 60, 127]);
+    pads.send([0x90, 62, 127]);
+    expect(handlers.onNoteOn).toHaveBeenCalledTimes(1);
+    expect(handlers.onNoteOn).toHaveBeenCalledWith(62, 1);
+  });
+
+  it('reads the handlers at message time', () => {
+    const keys = new FakeMidiInput('a', 'Keys');
+    let handlers = createHandlers();
+    connectMidiInputs(new FakeMidiAccess([keys]).asAccess(), 'all', () => handlers);
+
+    handlers = createHandlers();
+    keys.send([0x90, 60, 127]);
+    expect(handlers.onNoteOn).toHaveBeenCalledOnce();
+  });
+});
+
+describe('listMidiInputs', () => {
+  it('falls back to the id for unnamed devices', () => {
+    const access = new FakeMidiAccess([new FakeMidiInput('a', 'Keys'), new FakeMidiInput('b', '')]);
+    expect(listMidiInputs(access.asAccess())).toEqual([
+      { id: 'a', name: 'Keys' },
+      { id: 'b', name: 'b' },
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+export type MidiMessage =
+  | { type: 'noteOn'; channel: number; note: number; velocity: number }
+  | { type: 'noteOff'; channel: number; note: number }
+  | { type: 'sustain'; channel: number; on: boolean }
+  | { type: 'pitchBend'; channel: number; amount: number };
+
+export interface MidiInputHandlers {
+  onNoteOn: (note: number, velocity: number) => void;
+  onNoteOff: (note: number) => void;
+  onSustain: (on: boolean) => void;
+  onPitchBend: (amount: number) => void;
+}
+
+export interface MidiDevice {
+  id: string;
+  name: string;
+}
+
+const NOTE_OFF = 0x80;
+const NOTE_ON = 0x90;
+const CONTROL_CHANGE = 0xb0;
+const PITCH_BEND = 0xe0;
+const SUSTAIN_PEDAL = 64;
+
+// Decode one channel voice message. Velocity is normalized to 0-1 and
+// pitch bend to -1..1; anything we don't play is ignored.
+export const parseMidiMessage = (data: Uint8Array | number[]): MidiMessage | null => {
+  if (data.length < 3) return null;
+
+  const status = data[0] & 0xf0;
+  const channel = data[0] & 0x0f;
+
+  switch (status) {
+    case NOTE_ON:
+      // Many devices send note-on with velocity 0 instead of note-off
+      if (data[2] === 0) return { type: 'noteOff', channel, note: data[1] };
+      return { type: 'noteOn', channel, note: data[1], velocity: data[2] / 127 };
+    case NOTE_OFF:
+      return { type: 'noteOff', channel, note: data[1] };
+    case CONTROL_CHANGE:
+      if (data[1] !== SUSTAIN_PEDAL) return null;
+      return { type: 'sustain', channel, on: data[2] >= 64 };
+    case PITCH_BEND: {
+      const value = (data[2] << 7) | data[1];
+      return { type: 'pitchBend', channel, amount: (value - 8192) / 8192 };
+    }
+    default:
+      return null;
+  }
+};
+
+export const dispatchMidiMessage = (message: MidiMessage, handlers: MidiInputHandlers) => {
+  switch (message.type) {
+    case 'noteOn':
+      handlers.onNoteOn(message.note, message.velocity);
+      break;
+    case 'noteOff':
+      handlers.onNoteOff(message.note);
+      break;
+    case 'sustain':
+      handlers.onSustain(message.on);
+      break;
+    case 'pitchBend':
+      handlers.onPitchBend(message.amount);
+      break;
+  }
+};
+
+export const listMidiInputs = (access: MIDIAccess) => {
+  const devices: MidiDevice[] = [];
+  access.inputs.forEach((input, id) => {
+    devices.push({ id, name: input.name || id });
+  });
+  return devices;
+};
+
+// Forward messages from the chosen inputs to the handlers. Returns a function
+// that detaches the listeners again.
+export const connectMidiInputs = (
+  access: MIDIAccess,
+  inputId: string | 'all',
+  getHandlers: () => MidiInputHandlers
+) => {
+  const connected: MIDIInput[] = [];
+
+  const handleMessage = (event: MIDIMessageEvent) => {
+    if (!event.data) return;
+    const message = parseMidiMessage(event.data);
+    if (message) {
+      dispatchMidiMessage(message, getHandlers());
+    }
+  };
+
+  access.inputs.forEach((input, id) => {
+    if (inputId === 'all' || inputId === id) {
+      input.addEventListener('midimessage', handleMessage);
+      connected.push(input);
+    }
+  });
+
+  return () => {
+    connected.forEach((input) => input.removeEventListener('midimessage', handleMessage));
+  };
+};
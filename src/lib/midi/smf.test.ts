@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import type { Take } from '@/lib/recording/take';
+import { createTickConverter, midiFileToTake, MidiFileError, readMidiFile, writeMidiFile } from './smf';
+
+const take = (notes: number[]): Take => ({
+  events: notes.flatMap((note, i) => [
+    { type: 'noteOn' as const, note, velocity: 1, time: i * 0.5 },
+    { type: 'noteOff' as const, note, velocity: 0, time: i * 0.5 + 0.25 },
+  ]),
+  duration: notes.length * 0.5,
+});
+
+const roundTrip = (source: Take) => {
+  const bytes = writeMidiFile(source);
+  return midiFileToTake(readMidiFile(bytes.buffer as ArrayBuffer));
+};
+
+// Assemble a file from raw track bodies, each ending with its own end-of-track
+const chunk = (id: string, body: number[]) => [
+  ...Array.from(id, char => char.charCodeAt(0)),
+  (body.length >>> 24) & 0xff, (body.length >>> 16) & 0xff, (body.length >>> 8) & 0xff, body.length & 0xff,
+  ...body,
+];
+
+const smf = (format: number, ticksPerQuarter: number, tracks: number[][]) => new Uint8Array([
+  ...chunk('MThd', [0, format, 0, tracks.length, ticksPerQuarter >> 8, ticksPerQuarter & 0xff]),
+  ...tracks.flatMap(track => chunk('MTrk', [...track, 0x00, 0xff, 0x2f, 0x00])),
+]).buffer;
+
+const tempo = (delta: number, microseconds: number) =>
+  [delta, 0xff, 0x51, 0x03, (microseconds >> 16) & 0xff, (microseconds >> 8) & 0xff, microseconds & 0xff];
+
+// Header fields of a written file, and the track chunks that follow it
+const readHeader = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer);
+  let trackChunks = 0;
+  for (let pos = 14; pos < bytes.length; pos += 8 + view.getUint32(pos + 4)) {
+    if (String.fromCharCode(...bytes.slice(pos, pos + 4)) === 'MTrk') trackChunks++;
+  }
+  return {
+    id: String.fromCharCode(...bytes.slice(0, 4)),
+    length: view.getUint32(4),
+    format: view.getUint16(8),
+    tracks: view.getUint16(10),
+    division: view.getUint16(12),
+    trackChunks,
+  };
+};
+
+describe('readMidiFile', () => {
+  it('reads channel messages that use running status', () => {
+    const file = readMidiFile(smf(0, 96, [[
+      0x00, 0x91, 60, 100,
+      0x10, 64, 90,         // still note-on, channel 2
+      0x10, 0x81, 60, 0,
+      0x00, 64, 0,          // still note-off
+    ]]));
+
+    expect(file.tracks[0]).toEqual([
+      { tick: 0, type: 'noteOn', channel: 1, note: 60, velocity: 100 },
+      { tick: 16, type: 'noteOn', channel: 1, note: 64, velocity: 90 },
+      { tick: 32, type: 'noteOff', channel: 1, note: 60, velocity: 0 },
+      { tick: 32, type: 'noteOff', channel: 1, note: 64, velocity: 0 },
+    ]);
+  });
+
+  it('treats a note-on with velocity 0 as a note-off', () => {
+    const file = readMidiFile(smf(0, 96, [[0x00, 0x90, 60, 100, 0x60, 60, 0]]));
+    expect(file.tracks[0][1]).toEqual({ tick: 96, type: 'noteOff', channel: 0, note: 60, velocity: 0 });
+  });
+
+  it('rejects a data byte with no status before it', () => {
+    expect(() => readMidiFile(smf(0, 96, [[0x00, 60, 100]]))).toThrow(MidiFileError);
+  });
+
+  it('collects tempo changes from a conductor track', () => {
+    const file = readMidiFile(smf(1, 480, [
+      [...tempo(0, 500000), ...tempo(0x60, 250000)],
+      [0x00, 0x90, 60, 100],
+    ]));
+    expect(file.format).toBe(1);
+    expect(file.tracks).toHaveLength(2);
+    expect(file.tempoMap).toEqual([
+      { tick: 0, microsecondsPerQuarter: 500000 },
+      { tick: 96, microsecondsPerQuarter: 250000 },
+    ]);
+  });
+});
+
+describe('createTickConverter', () => {
+  const division = { type: 'ppq' as const, ticksPerQuarter: 480 };
+
+  it('assumes 120 BPM without a tempo map', () => {
+    expect(createTickConverter(division, [])(960)).toBe(1);
+  });
+
+  it('walks a map with several tempos', () => {
+    const toSeconds = createTickConverter(division, [
+      { tick: 0, microsecondsPerQuarter: 500000 },   // 120 BPM
+      { tick: 960, microsecondsPerQuarter: 250000 }, // 240 BPM
+      { tick: 1920, microsecondsPerQuarter: 1e6 },   // 60 BPM
+    ]);
+
+    expect(toSeconds(480)).toBeCloseTo(0.5);
+    expect(toSeconds(960)).toBeCloseTo(1);
+    expect(toSeconds(1440)).toBeCloseTo(1.25);
+    expect(toSeconds(1920)).toBeCloseTo(1.5);
+    expect(toSeconds(2400)).toBeCloseTo(2.5);
+  });
+
+  it('uses SMPTE ticks per second as they are', () => {
+    expect(createTickConverter({ type: 'smpte', ticksPerSecond: 1000 }, [])(1500)).toBe(1.5);
+  });
+});
+
+describe('writeMidiFile', () => {
+  it('writes a Type 0 file as one track holding the tempo', () => {
+    const bytes = writeMidiFile(take([60]), { format: 0, ticksPerQuarter: 96 });
+    expect(readHeader(bytes)).toEqual({ id: 'MThd', length: 6, format: 0, tracks: 1, division: 96, trackChunks: 1 });
+
+    const file = readMidiFile(bytes.buffer as ArrayBuffer);
+    expect(file.tempoMap).toEqual([{ tick: 0, microsecondsPerQuarter: 500000 }]);
+    expect(file.tracks[0]).toHaveLength(2);
+  });
+
+  it('writes a Type 1 file with a separate conductor track', () => {
+    const bytes = writeMidiFile(take([60]), { format: 1, bpm: 90 });
+    expect(readHeader(bytes)).toEqual({ id: 'MThd', length: 6, format: 1, tracks: 2, division: 480, trackChunks: 2 });
+
+    const file = readMidiFile(bytes.buffer as ArrayBuffer);
+    expect(file.tempoMap).toEqual([{ tick: 0, microsecondsPerQuarter: Math.round(60e6 / 90) }]);
+    expect(file.tracks[0]).toEqual([]);
+    expect(file.tracks[1]).toHaveLength(2);
+  });
+
+  it('keeps note timing within a tick through a round trip', () => {
+    const source: Take = {
+      events: [
+        { type: 'noteOn', note: 60, velocity: 0.8, time: 0.1234 },
+        { type: 'noteOn', note: 67, velocity: 0.5, time: 0.5678 },
+        { type: 'noteOff', note: 60, velocity: 0, time: 0.9012 },
+        { type: 'noteOff', note: 67, velocity: 0, time: 1.3456 },
+      ],
+      duration: 1.5,
+    };
+    // 480 ticks per quarter at 120 BPM
+    const tick = 1 / 960;
+
+    const result = roundTrip(source);
+    expect(result.events.map(({ type, note }) => [type, note])).toEqual(source.events.map(({ type, note }) => [type, note]));
+    result.events.forEach((event, i) => {
+      expect(Math.abs(event.time - source.events[i].time)).toBeLessThanOrEqual(tick);
+    });
+    expect(result.events[0].velocity).toBeCloseTo(0.8, 2);
+    expect(Math.abs(result.duration - source.duration)).toBeLessThanOrEqual(tick);
+  });
+
+  it('writes the lowest and highest MIDI notes as they are', () => {
+    const notes = roundTrip(take([0, 127])).events
+      .filter(event => event.type === 'noteOn')
+      .map(event => event.note);
+    expect(notes).toEqual([0, 127]);
+  });
+
+  it('rejects notes outside the MIDI range instead of wrapping them', () => {
+    expect(() => writeMidiFile(take([60, 128]))).toThrow(MidiFileError);
+    expect(() => writeMidiFile(take([-1]))).toThrow('Note -1 is outside the MIDI range 0-127');
+  });
+});
@@ -0,0 +1,323 @@
+import { isMidiNote, MIDI_NOTE_RANGE } from '@/lib/audio/notes';
+import { closeHeldNotes, sortEvents, type NoteEvent, type Take } from '@/lib/recording/take';
+
+// Standard MIDI File (SMF) reading and writing, limited to what a take holds:
+// notes, velocities and tempo. Other events are parsed past and dropped.
+
+export type MidiFileFormat = 0 | 1 | 2;
+
+export type MidiDivision =
+  | { type: 'ppq'; ticksPerQuarter: number }
+  | { type: 'smpte'; ticksPerSecond: number };
+
+export interface TempoChange {
+  tick: number;
+  microsecondsPerQuarter: number;
+}
+
+export interface MidiFileNote {
+  tick: number;
+  type: 'noteOn' | 'noteOff';
+  channel: number;
+  note: number;
+  velocity: number;  // 0-127
+}
+
+export interface MidiFile {
+  format: MidiFileFormat;
+  division: MidiDivision;
+  tracks: MidiFileNote[][];
+  tempoMap: TempoChange[];
+  endTick: number;
+}
+
+export class MidiFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MidiFileError';
+  }
+}
+
+const DEFAULT_TEMPO = 500000;  // 120 BPM, the SMF default
+const META_EVENT = 0xff;
+const META_TEMPO = 0x51;
+const META_END_OF_TRACK = 0x2f;
+const SYSEX_START = 0xf0;
+const SYSEX_ESCAPE = 0xf7;
+
+export const isMidiFile = (file: File) => /\.(mid|midi|smf)$/i.test(file.name) || file.type === 'audio/midi';
+
+/* Reading */
+
+export const readMidiFile = (buffer: ArrayBuffer): MidiFile => {
+  const data = new Uint8Array(buffer);
+  let pos = 0;
+
+  const ensure = (count: number) => {
+    if (pos + count > data.length) throw new MidiFileError('Unexpected end of file');
+  };
+  const readUint32 = () => {
+    ensure(4);
+    const value = ((data[pos] << 24) | (data[pos + 1] << 16) | (data[pos + 2] << 8) | data[pos + 3]) >>> 0;
+    pos += 4;
+    return value;
+  };
+  const readUint16 = () => {
+    ensure(2);
+    const value = (data[pos] << 8) | data[pos + 1];
+    pos += 2;
+    return value;
+  };
+  const readByte = () => {
+    ensure(1);
+    return data[pos++];
+  };
+  const readChunkId = () => {
+    ensure(4);
+    const id = String.fromCharCode(data[pos], data[pos + 1], data[pos + 2], data[pos + 3]);
+    pos += 4;
+    return id;
+  };
+  // Variable-length quantity: 7 bits per byte, high bit set on all but the last
+  const readVarLen = () => {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const byte = readByte();
+      value = (value << 7) | (byte & 0x7f);
+      if (!(byte & 0x80)) return value;
+    }
+    throw new MidiFileError('Variable-length quantity is longer than four bytes');
+  };
+
+  if (readChunkId() !== 'MThd') throw new MidiFileError('Not a Standard MIDI File');
+  const headerLength = readUint32();
+  const headerEnd = pos + headerLength;
+  const format = readUint16();
+  const trackCount = readUint16();
+  const rawDivision = readUint16();
+  pos = headerEnd;
+
+  if (format > 2) throw new MidiFileError(`Unsupported MIDI file format ${format}`);
+
+  // Top bit set means SMPTE timing: negative frames per second, ticks per frame
+  const division: MidiDivision = rawDivision & 0x8000
+    ? { type: 'smpte', ticksPerSecond: (256 - (rawDivision >> 8)) * (rawDivision & 0xff) }
+    : { type: 'ppq', ticksPerQuarter: rawDivision };
+
+  const tracks: MidiFileNote[][] = [];
+  const tempoMap: TempoChange[] = [];
+  let endTick = 0;
+
+  while (tracks.length < trackCount && pos < data.length) {
+    const id = readChunkId();
+    const length = readUint32();
+    const chunkEnd = pos + length;
+
+    // Unknown chunk types must be skipped, per the spec
+    if (id !== 'MTrk') {
+      pos = chunkEnd;
+      continue;
+    }
+
+    const notes: MidiFileNote[] = [];
+    let tick = 0;
+    let runningStatus = 0;
+
+    while (pos < chunkEnd) {
+      tick += readVarLen();
+      let status = data[pos];
+
+      if (status < 0x80) {
+        // Running status: the data byte belongs to the previous channel message
+        if (!runningStatus) throw new MidiFileError('Data byte without a status byte');
+        status = runningStatus;
+      } else {
+        pos++;
+      }
+
+      if (status === META_EVENT) {
+        const type = readByte();
+        const length = readVarLen();
+        ensure(length);
+        if (type === META_TEMPO && length === 3) {
+          tempoMap.push({
+            tick,
+            microsecondsPerQuarter: (data[pos] << 16) | (data[pos + 1] << 8) | data[pos + 2],
+          });
+        }
+        pos += length;
+        runningStatus = 0;
+        if (type === META_END_OF_TRACK) break;
+        continue;
+      }
+
+      if (status === SYSEX_START || status === SYSEX_ESCAPE) {
+        const length = readVarLen();
+        ensure(length);
+        pos += length;
+        runningStatus = 0;
+        continue;
+      }
+
+      runningStatus = status;
+      const type = status & 0xf0;
+      const channel = status & 0x0f;
+      // Program change and channel pressure carry one data byte, the rest two
+      const first = readByte();
+      const second = type === 0xc0 || type === 0xd0 ? 0 : readByte();
+
+      if (type === 0x90 && second > 0) {
+        notes.push({ tick, type: 'noteOn', channel, note: first, velocity: second });
+      } else if (type === 0x80 || type === 0x90) {
+        // Note-on with velocity 0 is the common shorthand for note-off
+        notes.push({ tick, type: 'noteOff', channel, note: first, velocity: 0 });
+      }
+    }
+
+    endTick = Math.max(endTick, tick);
+    pos = chunkEnd;
+    tracks.push(notes);
+  }
+
+  tempoMap.sort((a, b) => a.tick - b.tick);
+  return { format: format as MidiFileFormat, division, tracks, tempoMap, endTick };
+};
+
+// Convert ticks to seconds, walking the tempo map segment by segment
+export const createTickConverter = (division: MidiDivision, tempoMap: TempoChange[]) => {
+  if (division.type === 'smpte') {
+    return (tick: number) => tick / division.ticksPerSecond;
+  }
+
+  const segments: { tick: number; seconds: number; secondsPerTick: number }[] = [];
+  let seconds = 0;
+  let lastTick = 0;
+  let secondsPerTick = DEFAULT_TEMPO / 1e6 / division.ticksPerQuarter;
+  segments.push({ tick: 0, seconds: 0, secondsPerTick });
+
+  tempoMap.forEach(change => {
+    seconds += (change.tick - lastTick) * secondsPerTick;
+    lastTick = change.tick;
+    secondsPerTick = change.microsecondsPerQuarter / 1e6 / division.ticksPerQuarter;
+    segments.push({ tick: change.tick, seconds, secondsPerTick });
+  });
+
+  return (tick: number) => {
+    let segment = segments[0];
+    for (let i = segments.length - 1; i >= 0; i--) {
+      if (segments[i].tick <= tick) {
+        segment = segments[i];
+        break;
+      }
+    }
+    return segment.seconds + (tick - segment.tick) * segment.secondsPerTick;
+  };
+};
+
+// Flatten every track of a file into one playable take
+export const midiFileToTake = (file: MidiFile): Take => {
+  const toSeconds = createTickConverter(file.division, file.tempoMap);
+  const events: NoteEvent[] = file.tracks.flat().map(note => ({
+    type: note.type,
+    note: note.note,
+    velocity: note.velocity / 127,
+    time: toSeconds(note.tick),
+  }));
+  const duration = events.reduce((latest, event) => Math.max(latest, event.time), toSeconds(file.endTick));
+
+  return { events: sortEvents(closeHeldNotes(events, duration)), duration };
+};
+
+export const loadMidiFile = async (file: File) => midiFileToTake(readMidiFile(await file.arrayBuffer()));
+
+/* Writing */
+
+export interface MidiWriteOptions {
+  format?: 0 | 1;
+  bpm?: number;
+  ticksPerQuarter?: number;
+  channel?: number;
+}
+
+const writeVarLen = (bytes: number[], value: number) => {
+  const stack = [value & 0x7f];
+  value >>= 7;
+  while (value > 0) {
+    stack.push((value & 0x7f) | 0x80);
+    value >>= 7;
+  }
+  while (stack.length) bytes.push(stack.pop()!);
+};
+
+const writeUint32 = (bytes: number[], value: number) => {
+  bytes.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+};
+
+const writeChunk = (bytes: number[], id: string, body: number[]) => {
+  for (let i = 0; i < 4; i++) bytes.push(id.charCodeAt(i));
+  writeUint32(bytes, body.length);
+  body.forEach(byte => bytes.push(byte));
+};
+
+const tempoEvent = (bpm: number) => {
+  const microseconds = Math.round(60e6 / bpm);
+  return [0x00, META_EVENT, META_TEMPO, 0x03, (microseconds >> 16) & 0xff, (microseconds >> 8) & 0xff, microseconds & 0xff];
+};
+
+const endOfTrack = (bytes: number[], delta: number) => {
+  writeVarLen(bytes, delta);
+  bytes.push(META_EVENT, META_END_OF_TRACK, 0x00);
+};
+
+// Encode note events with running status; note-offs are written as note-on
+// with velocity 0 so the whole track shares a single status byte
+const noteTrack = (take: Take, ticksPerSecond: number, channel: number, prefix: number[] = []) => {
+  const bytes = [...prefix];
+  const status = 0x90 | (channel & 0x0f);
+  let lastTick = 0;
+  let runningStatus = 0;
+
+  sortEvents(take.events).forEach(event => {
+    const tick = Math.round(event.time * ticksPerSecond);
+    writeVarLen(bytes, tick - lastTick);
+    lastTick = tick;
+
+    if (runningStatus !== status) {
+      bytes.push(status);
+      runningStatus = status;
+    }
+    const velocity = event.type === 'noteOn' ? Math.max(1, Math.min(127, Math.round(event.velocity * 127))) : 0;
+    bytes.push(event.note, velocity);
+  });
+
+  const endTick = Math.max(lastTick, Math.round(take.duration * ticksPerSecond));
+  endOfTrack(bytes, endTick - lastTick);
+  return bytes;
+};
+
+export const writeMidiFile = (take: Take, options: MidiWriteOptions = {}) => {
+  const { format = 1, bpm = 120, ticksPerQuarter = 480, channel = 0 } = options;
+  // A data byte only holds seven bits, and masking would play a different note
+  const outOfRange = take.events.find(event => !isMidiNote(event.note));
+  if (outOfRange) {
+    throw new MidiFileError(`Note ${outOfRange.note} is outside the MIDI range ${MIDI_NOTE_RANGE.min}-${MIDI_NOTE_RANGE.max}`);
+  }
+
+  const ticksPerSecond = ticksPerQuarter * bpm / 60;
+  const bytes: number[] = [];
+
+  const header = [0, format, 0, format === 0 ? 1 : 2, (ticksPerQuarter >> 8) & 0x7f, ticksPerQuarter & 0xff];
+  writeChunk(bytes, 'MThd', header);
+
+  if (format === 0) {
+    writeChunk(bytes, 'MTrk', noteTrack(take, ticksPerSecond, channel, tempoEvent(bpm)));
+  } else {
+    // Type 1 keeps the tempo map in its own conductor track
+    const conductor = tempoEvent(bpm);
+    endOfTrack(conductor, 0);
+    writeChunk(bytes, 'MTrk', conductor);
+    writeChunk(bytes, 'MTrk', noteTrack(take, ticksPerSecond, channel));
+  }
+
+  return new Uint8Array(bytes);
+};
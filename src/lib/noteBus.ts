@@ -0,0 +1,61 @@
+import { midiToFrequency, pitchClass } from '@/lib/audio/notes';
+
+// A note as the visualizers see it, published when it actually sounds (or
+// stops sounding) rather than when it was scheduled
+export interface NoteBusEvent {
+  type: 'noteOn' | 'noteOff';
+  note: number;        // MIDI note number
+  frequency: number;   // Hz, at concert pitch
+  velocity: number;    // 0-1, 0 for note-off
+  pitchClass: number;  // 0 = C ... 11 = B
+  time: number;        // AudioContext time
+}
+
+export interface NoteBus {
+  publish: (event: NoteBusEvent) => void;
+  subscribe: (listener: (event: NoteBusEvent) => void) => () => void;
+  // Everything published since the last call, oldest first; the render loop
+  // takes these once per frame
+  drain: () => NoteBusEvent[];
+}
+
+// Past this, a consumer that stopped draining (a hidden tab) loses the oldest
+const MAX_PENDING = 256;
+
+export const createNoteEvent = (
+  type: NoteBusEvent['type'],
+  note: number,
+  velocity: number,
+  time: number
+): NoteBusEvent => ({
+  type,
+  note,
+  frequency: midiToFrequency(note),
+  velocity: type === 'noteOn' ? velocity : 0,
+  pitchClass: pitchClass(note),
+  time,
+});
+
+export const createNoteBus = (): NoteBus => {
+  let pending: NoteBusEvent[] = [];
+  const listeners = new Set<(event: NoteBusEvent) => void>();
+
+  return {
+    publish: (event) => {
+      pending.push(event);
+      if (pending.length > MAX_PENDING) pending.splice(0, pending.length - MAX_PENDING);
+      listeners.forEach(listener => listener(event));
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    drain: () => {
+      const events = pending;
+      pending = [];
+      return events;
+    },
+  };
+};
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRecorder, type Recorder } from './recorder';
+import type { NoteEvent, Take } from './take';
+
+const TAKE: Take = {
+  events: [
+    { type: 'noteOn', note: 60, velocity: 1, time: 0 },
+    { type: 'noteOn', note: 64, velocity: 1, time: 0.03 },
+    { type: 'noteOff', note: 60, velocity: 0, time: 0.5 },
+    { type: 'noteOff', note: 64, velocity: 0, time: 0.5 },
+  ],
+  duration: 0.6,
+};
+
+let clock: number;
+let played: [NoteEvent['type'], number, number][];
+let recorder: Recorder;
+
+describe('createRecorder', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    clock = 0;
+    played = [];
+    recorder = createRecorder({
+      now: () => clock,
+      playEvent: (event, time) => played.push([event.type, event.note, time]),
+    });
+    recorder.setTake(TAKE);
+  });
+
+  afterEach(() => {
+    recorder.stop();
+    vi.useRealTimers();
+  });
+
+  it('queues events ahead of the clock at their place in the take', () => {
+    recorder.play();
+    // Playback starts 50 ms out and looks 100 ms ahead
+    expect(played).toEqual([['noteOn', 60, 0.05], ['noteOn', 64, 0.08]]);
+  });
+
+  it('never releases a note before it has started', () => {
+    recorder.play();
+    clock = 0.01;
+    recorder.stop();
+
+    expect(played.slice(2)).toEqual([['noteOff', 60, 0.05], ['noteOff', 64, 0.08]]);
+  });
+
+  it('releases notes already sounding when stopped', () => {
+    recorder.play();
+    clock = 0.2;
+    vi.advanceTimersByTime(25);
+    recorder.stop();
+
+    expect(played.slice(2)).toEqual([['noteOff', 60, 0.2], ['noteOff', 64, 0.2]]);
+    expect(recorder.getState()).toBe('idle');
+  });
+
+  it('does not release notes the take has already released', () => {
+    recorder.play();
+    clock = 0.5;
+    vi.advanceTimersByTime(25);
+    recorder.stop();
+
+    expect(played.filter(([type]) => type === 'noteOff')).toEqual([['noteOff', 60, 0.55], ['noteOff', 64, 0.55]]);
+  });
+});
@@ -0,0 +1,175 @@
+import { EMPTY_TAKE, closeHeldNotes, mergeTakes, sortEvents, type NoteEvent, type Take } from './take';
+
+export type RecorderState = 'idle' | 'armed' | 'recording' | 'playing' | 'overdubbing';
+
+export interface RecorderOptions {
+  // Current AudioContext time, the clock every event is stamped against
+  now: () => number;
+  // Play one event at the given AudioContext time, the same way live input would
+  playEvent: (event: NoteEvent, time: number) => void;
+  onChange?: () => void;
+}
+
+export interface Recorder {
+  getState: () => RecorderState;
+  getTake: () => Take;
+  setTake: (take: Take) => void;
+  // Start recording on the first note that comes in
+  arm: () => void;
+  record: () => void;
+  // Play the take back while recording new notes on top of it
+  overdub: () => void;
+  play: () => void;
+  stop: () => void;
+  // Feed a live note event into the recorder
+  input: (event: NoteEvent) => void;
+}
+
+// How often the scheduler wakes up, and how far ahead of the audio clock it
+// queues events. Scheduling ahead on the audio clock keeps playback timing
+// independent of main-thread jank.
+const SCHEDULER_INTERVAL = 25;   // ms
+const SCHEDULE_AHEAD = 0.1;      // s
+// Small delay before the first event so it isn't scheduled in the past
+const START_DELAY = 0.05;        // s
+
+export const createRecorder = ({ now, playEvent, onChange }: RecorderOptions): Recorder => {
+  let state: RecorderState = 'idle';
+  let take: Take = EMPTY_TAKE;
+  let recorded: NoteEvent[] = [];
+  let recordStart = 0;
+  let playbackStart = 0;
+  let nextIndex = 0;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let dispatching = false;
+  // Notes started by playback that haven't been released yet, with the
+  // AudioContext time each starts at
+  const playbackHeld = new Map<number, number>();
+
+  const setState = (next: RecorderState) => {
+    state = next;
+    onChange?.();
+  };
+
+  const dispatch = (event: NoteEvent, time: number) => {
+    if (event.type === 'noteOn') playbackHeld.set(event.note, time);
+    else playbackHeld.delete(event.note);
+
+    // The engine echoes played notes back through input(); this flag keeps
+    // playback from being recorded into the overdub
+    dispatching = true;
+    try {
+      playEvent(event, time);
+    } finally {
+      dispatching = false;
+    }
+  };
+
+  const stopScheduler = () => {
+    if (timer !== null) {
+      clearInterval(timer);
+      timer = null;
+    }
+    // Notes are queued ahead of the clock, so some may not have started yet;
+    // none is released before its start
+    const stopTime = now();
+    playbackHeld.forEach((start, note) => {
+      const time = Math.max(stopTime, start);
+      dispatch({ type: 'noteOff', note, velocity: 0, time: time - playbackStart }, time);
+    });
+  };
+
+  const schedule = () => {
+    const horizon = now() + SCHEDULE_AHEAD;
+    const events = take.events;
+
+    while (nextIndex < events.length && playbackStart + events[nextIndex].time < horizon) {
+      dispatch(events[nextIndex], playbackStart + events[nextIndex].time);
+      nextIndex++;
+    }
+
+    // Plain playback ends with the take; an overdub keeps recording until stopped
+    if (nextIndex >= events.length && state === 'playing' && now() >= playbackStart + take.duration) {
+      stopScheduler();
+      setState('idle');
+    }
+  };
+
+  const startPlayback = (start: number) => {
+    playbackStart = start;
+    nextIndex = 0;
+    schedule();
+    timer = setInterval(schedule, SCHEDULER_INTERVAL);
+  };
+
+  const startRecording = (start: number) => {
+    recorded = [];
+    recordStart = start;
+  };
+
+  const finishRecording = () => {
+    const duration = now() - recordStart;
+    const events = closeHeldNotes(recorded, duration);
+    const newTake: Take = { events: sortEvents(events), duration };
+    take = state === 'overdubbing' ? mergeTakes(take, newTake) : newTake;
+    recorded = [];
+  };
+
+  const stop = () => {
+    if (state === 'recording' || state === 'overdubbing') {
+      finishRecording();
+    }
+    if (state === 'playing' || state === 'overdubbing') {
+      stopScheduler();
+    }
+    if (state !== 'idle') {
+      setState('idle');
+    }
+  };
+
+  return {
+    getState: () => state,
+    getTake: () => take,
+    setTake: (next) => {
+      stop();
+      take = next;
+      onChange?.();
+    },
+    arm: () => {
+      stop();
+      setState('armed');
+    },
+    record: () => {
+      stop();
+      startRecording(now());
+      setState('recording');
+    },
+    overdub: () => {
+      stop();
+      const start = now() + START_DELAY;
+      // Overdubbed notes line up with the take, so both share one start time
+      startRecording(start);
+      startPlayback(start);
+      setState('overdubbing');
+    },
+    play: () => {
+      stop();
+      if (take.events.length === 0) return;
+      startPlayback(now() + START_DELAY);
+      setState('playing');
+    },
+    stop,
+    input: (event) => {
+      if (dispatching) return;
+
+      if (state === 'armed') {
+        if (event.type !== 'noteOn') return;
+        startRecording(event.time);
+        setState('recording');
+      }
+      if (state === 'recording' || state === 'overdubbing') {
+        recorded.push({ ...event, time: Math.max(0, event.time - recordStart) });
+      }
+    },
+  };
+};
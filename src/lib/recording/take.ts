@@ -0,0 +1,36 @@
+export interface NoteEvent {
+  type: 'noteOn' | 'noteOff';
+  note: number;
+  velocity: number;  // 0-1, always 0 for noteOff
+  time: number;      // seconds; AudioContext time when live, take-relative once recorded
+}
+
+export interface Take {
+  events: NoteEvent[];
+  duration: number;  // seconds
+}
+
+export const EMPTY_TAKE: Take = { events: [], duration: 0 };
+
+// Order by time, with note-offs first at equal times so a re-struck note
+// isn't cut off by its own previous release
+export const sortEvents = (events: NoteEvent[]) =>
+  [...events].sort((a, b) => a.time - b.time || (a.type === 'noteOff' ? -1 : 1) - (b.type === 'noteOff' ? -1 : 1));
+
+// Close any notes still held at the end of a take so playback never hangs
+export const closeHeldNotes = (events: NoteEvent[], endTime: number) => {
+  const held = new Set<number>();
+  sortEvents(events).forEach(event => {
+    if (event.type === 'noteOn') held.add(event.note);
+    else held.delete(event.note);
+  });
+  return [
+    ...events,
+    ...Array.from(held, (note): NoteEvent => ({ type: 'noteOff', note, velocity: 0, time: endTime })),
+  ];
+};
+
+export const mergeTakes = (base: Take, overdub: Take): Take => ({
+  events: sortEvents([...base.events, ...overdub.events]),
+  duration: Math.max(base.duration, overdub.duration),
+});
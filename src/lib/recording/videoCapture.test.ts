@@ -0,0 +1,76 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startVideoCapture } from './videoCapture';
+
+const OPTIONS = { width: 320, height: 180, frameRate: 30 };
+
+let track: { stop: ReturnType<typeof vi.fn> };
+let requestFrame: ReturnType<typeof vi.fn>;
+
+class FakeMediaRecorder {
+  static fail = false;
+  state = 'inactive';
+  mimeType = 'video/webm';
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+
+  static isTypeSupported = () => true;
+
+  constructor() {
+    if (FakeMediaRecorder.fail) throw new DOMException('No encoder', 'NotSupportedError');
+  }
+
+  start() {
+    this.state = 'recording';
+  }
+
+  stop() {
+    this.state = 'inactive';
+    this.onstop?.();
+  }
+}
+
+describe('startVideoCapture', () => {
+  beforeEach(() => {
+    track = { stop: vi.fn() };
+    requestFrame = vi.fn(() => 1);
+    FakeMediaRecorder.fail = false;
+    vi.stubGlobal('MediaRecorder', FakeMediaRecorder);
+    vi.stubGlobal('MediaStream', class {
+      constructor(public tracks: unknown[]) {}
+    });
+    vi.stubGlobal('requestAnimationFrame', requestFrame);
+    vi.stubGlobal('cancelAnimationFrame', vi.fn());
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+      fillRect: vi.fn(),
+      drawImage: vi.fn(),
+    } as unknown as CanvasRenderingContext2D);
+    HTMLCanvasElement.prototype.captureStream = vi.fn(() => ({
+      getVideoTracks: () => [track],
+      getTracks: () => [track],
+    })) as unknown as HTMLCanvasElement['captureStream'];
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('copies frames until stopped, then releases the stream', async () => {
+    const capture = startVideoCapture(document.createElement('canvas'), OPTIONS);
+    expect(requestFrame).toHaveBeenCalledTimes(1);
+
+    const blob = await capture.stop();
+    expect(blob.type).toBe('video/webm');
+    expect(cancelAnimationFrame).toHaveBeenCalledWith(1);
+    expect(track.stop).toHaveBeenCalled();
+  });
+
+  it('leaves nothing running when the recorder cannot be created', () => {
+    FakeMediaRecorder.fail = true;
+
+    expect(() => startVideoCapture(document.createElement('canvas'), OPTIONS)).toThrow('No encoder');
+    expect(requestFrame).not.toHaveBeenCalled();
+    expect(track.stop).toHaveBeenCalled();
+  });
+});
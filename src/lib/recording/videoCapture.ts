@@ -0,0 +1,104 @@
+export interface VideoResolution {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+}
+
+export const VIDEO_RESOLUTIONS: VideoResolution[] = [
+  { id: '720p', name: '1280 × 720', width: 1280, height: 720 },
+  { id: '1080p', name: '1920 × 1080', width: 1920, height: 1080 },
+  { id: 'square', name: '1080 × 1080', width: 1080, height: 1080 },
+  { id: 'vertical', name: '1080 × 1920', width: 1080, height: 1920 },
+];
+
+export const VIDEO_FRAME_RATES = [24, 30, 60];
+
+const MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+
+export const isVideoCaptureSupported = () =>
+  typeof MediaRecorder !== 'undefined' &&
+  typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+export const pickVideoMimeType = () =>
+  MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+
+export interface VideoCaptureOptions {
+  width: number;
+  height: number;
+  frameRate: number;
+  audio?: MediaStream;
+}
+
+export interface VideoCapture {
+  // Finish recording and resolve with the encoded WebM file
+  stop: () => Promise<Blob>;
+}
+
+// Record a canvas, plus optional audio, to WebM. Frames are copied onto a
+// canvas of the requested size (letterboxed to keep the aspect ratio), so
+// the export resolution doesn't depend on the window size.
+export const startVideoCapture = (source: HTMLCanvasElement, options: VideoCaptureOptions): VideoCapture => {
+  const { width, height, frameRate, audio } = options;
+  const target = document.createElement('canvas');
+  target.width = width;
+  target.height = height;
+  const ctx = target.getContext('2d');
+  if (!ctx) throw new Error('Could not create a 2D canvas for video capture');
+
+  let frameId = 0;
+  const copyFrame = () => {
+    // Use the displayed size for the aspect ratio: a canvas handed to a worker
+    // keeps its original width and height attributes
+    const sourceWidth = source.clientWidth || source.width;
+    const sourceHeight = source.clientHeight || source.height;
+    const scale = Math.min(width / sourceWidth, height / sourceHeight);
+    const drawWidth = sourceWidth * scale;
+    const drawHeight = sourceHeight * scale;
+    ctx.fillStyle = 'rgb(0, 0, 0)';
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(source, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+    frameId = requestAnimationFrame(copyFrame);
+  };
+
+  // Stream and recorder come first: either can throw (NotSupportedError, for
+  // one), and then nothing must be left running
+  const videoStream = target.captureStream(frameRate);
+  const chunks: Blob[] = [];
+  let recorder: MediaRecorder;
+  try {
+    const stream = new MediaStream([
+      ...videoStream.getVideoTracks(),
+      ...(audio?.getAudioTracks() ?? []),
+    ]);
+
+    const mimeType = pickVideoMimeType();
+    recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    // Emit data every second so a long take isn't held in one giant buffer
+    recorder.start(1000);
+    copyFrame();
+  } catch (error) {
+    cancelAnimationFrame(frameId);
+    if (recorder?.state === 'recording') recorder.stop();
+    videoStream.getTracks().forEach(track => track.stop());
+    throw error;
+  }
+
+  return {
+    stop: () => new Promise<Blob>((resolve) => {
+      recorder.onstop = () => {
+        cancelAnimationFrame(frameId);
+        videoStream.getTracks().forEach(track => track.stop());
+        resolve(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+      };
+      recorder.stop();
+    }),
+  };
+};
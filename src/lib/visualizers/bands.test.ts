@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { midiToFrequency } from '@/lib/audio/notes';
+import { bandCountFor, bandEdges, createBandMapper, SEMITONE_RANGE, type BandScale } from './bands';
+
+const SAMPLE_RATE = 44100;
+const NYQUIST = SAMPLE_RATE / 2;
+// What an analyser with fftSize 2048 hands over
+const BINS = 1024;
+const BIN_WIDTH = NYQUIST / BINS;
+
+const SCALES: BandScale[] = ['semitone', 'log', 'mel', 'bark'];
+
+const mel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const bark = (hz: number) => (26.81 * hz) / (1960 + hz) - 0.53;
+
+// Each band's value with one bin at full scale and the rest silent, to see
+// which bins a band reads from
+const bandsHitBy = (scale: BandScale, count: number, bin: number) => {
+  const data = new Uint8Array(BINS);
+  data[bin] = 255;
+  return createBandMapper()(data, SAMPLE_RATE, scale, count);
+};
+
+describe('bandEdges', () => {
+  it.each(SCALES)('rises monotonically on the %s scale', (scale) => {
+    const edges = bandEdges(scale, bandCountFor(scale, 64), NYQUIST);
+
+    expect(edges).toHaveLength(bandCountFor(scale, 64) + 1);
+    edges.slice(1).forEach((edge, i) => expect(edge).toBeGreaterThan(edges[i]));
+  });
+
+  it('centres one band on each key from C1 to C8', () => {
+    const edges = bandEdges('semitone', bandCountFor('semitone', 64), NYQUIST);
+    const a4 = 69 - SEMITONE_RANGE.low;
+
+    expect(edges).toHaveLength(SEMITONE_RANGE.high - SEMITONE_RANGE.low + 2);
+    expect(edges[0]).toBeCloseTo(midiToFrequency(23.5), 6);
+    expect(edges[a4]).toBeCloseTo(440 * Math.pow(2, -1 / 24), 6);
+    expect(edges[a4 + 1]).toBeCloseTo(440 * Math.pow(2, 1 / 24), 6);
+    expect(edges[edges.length - 1]).toBeCloseTo(midiToFrequency(108.5), 6);
+  });
+
+  it('spaces log bands by equal ratios from 20 Hz to 20 kHz', () => {
+    const edges = bandEdges('log', 3, NYQUIST);
+
+    expect(edges[0]).toBeCloseTo(20, 6);
+    expect(edges[1]).toBeCloseTo(200, 6);
+    expect(edges[2]).toBeCloseTo(2000, 6);
+    expect(edges[3]).toBeCloseTo(20000, 6);
+  });
+
+  it('spaces mel bands evenly in mels', () => {
+    const edges = bandEdges('mel', 8, NYQUIST);
+    const step = (mel(20000) - mel(20)) / 8;
+
+    expect(edges[0]).toBeCloseTo(20, 6);
+    expect(edges[8]).toBeCloseTo(20000, 6);
+    edges.forEach((edge, i) => expect(mel(edge)).toBeCloseTo(mel(20) + step * i, 6));
+  });
+
+  it('spaces Bark bands evenly in Barks', () => {
+    const edges = bandEdges('bark', 8, NYQUIST);
+    const step = (bark(20000) - bark(20)) / 8;
+
+    expect(edges[0]).toBeCloseTo(20, 6);
+    expect(edges[8]).toBeCloseTo(20000, 6);
+    edges.forEach((edge, i) => expect(bark(edge)).toBeCloseTo(bark(20) + step * i, 6));
+  });
+
+  it.each(['log', 'mel', 'bark'] as BandScale[])('stops the %s scale at Nyquist when that is below 20 kHz', (scale) => {
+    const edges = bandEdges(scale, 16, 16000);
+
+    expect(edges[16]).toBeCloseTo(16000, 6);
+  });
+});
+
+describe('createBandMapper', () => {
+  it.each(SCALES)('reads every %s band from at least one bin', (scale) => {
+    const count = bandCountFor(scale, 64);
+    const covered = new Set<number>();
+
+    for (let bin = 0; bin < BINS; bin++) {
+      bandsHitBy(scale, count, bin).forEach((value, band) => {
+        if (value > 0) covered.add(band);
+      });
+    }
+    expect(covered.size).toBe(count);
+  });
+
+  it('puts a bin in the band whose edges hold its frequency', () => {
+    // 1000 Hz is near the middle of the log range
+    const edges = bandEdges('log', 64, NYQUIST);
+    const bin = Math.round(1000 / BIN_WIDTH);
+    const band = edges.findIndex((edge, i) => edge <= bin * BIN_WIDTH && bin * BIN_WIDTH < edges[i + 1]);
+
+    const values = bandsHitBy('log', 64, bin);
+    expect(values[band]).toBe(255);
+  });
+
+  it('reuses its output array between frames', () => {
+    const map = createBandMapper();
+    const data = new Uint8Array(BINS);
+
+    expect(map(data, SAMPLE_RATE, 'mel', 32)).toBe(map(data, SAMPLE_RATE, 'mel', 32));
+  });
+});
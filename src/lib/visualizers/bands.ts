@@ -0,0 +1,94 @@
+import { midiToFrequency } from '@/lib/audio/notes';
+
+// Regroup linear FFT bins into perceptual or musical bands. The analyser's
+// bins are evenly spaced in Hz, so at typical sizes every note below C5 sits
+// in a handful of bins; these scales spread the low end out instead.
+
+export type BandScale = 'semitone' | 'log' | 'mel' | 'bark' | 'linear';
+
+export const BAND_SCALES: [BandScale, ...BandScale[]] = ['semitone', 'log', 'mel', 'bark', 'linear'];
+
+// One band per key of the on-screen keyboard, C1 to C8
+export const SEMITONE_RANGE = { low: 24, high: 108 };
+
+const MIN_FREQUENCY = 20;
+const MAX_FREQUENCY = 20000;
+
+// Each continuous scale as a warp from Hz and back; bands are evenly spaced
+// in the warped domain
+const WARPS: Record<Exclude<BandScale, 'semitone'>, { to: (hz: number) => number; from: (value: number) => number }> = {
+  linear: { to: hz => hz, from: value => value },
+  log: { to: hz => Math.log2(hz), from: value => Math.pow(2, value) },
+  mel: {
+    to: hz => 2595 * Math.log10(1 + hz / 700),
+    from: mel => 700 * (Math.pow(10, mel / 2595) - 1),
+  },
+  // Traunmüller's approximation of the Bark scale
+  bark: {
+    to: hz => (26.81 * hz) / (1960 + hz) - 0.53,
+    from: bark => (1960 * (bark + 0.53)) / (26.28 - bark),
+  },
+};
+
+export const bandCountFor = (scale: BandScale, count: number) =>
+  scale === 'semitone' ? SEMITONE_RANGE.high - SEMITONE_RANGE.low + 1 : count;
+
+// Band edges in Hz, lowest band first; band i spans edges[i] to edges[i + 1]
+export const bandEdges = (scale: BandScale, count: number, nyquist: number) => {
+  if (scale === 'semitone') {
+    return Array.from({ length: count + 1 }, (_, i) => midiToFrequency(SEMITONE_RANGE.low + i - 0.5));
+  }
+
+  const warp = WARPS[scale];
+  const low = warp.to(scale === 'linear' ? 0 : MIN_FREQUENCY);
+  const high = warp.to(Math.min(MAX_FREQUENCY, nyquist));
+  return Array.from({ length: count + 1 }, (_, i) => warp.from(low + ((high - low) * i) / count));
+};
+
+// Returns a function that maps a frame's bins onto bands, reusing its output
+// array and only recomputing the layout when the inputs change
+export const createBandMapper = () => {
+  let layoutKey = '';
+  let low = new Float32Array(0);
+  let high = new Float32Array(0);
+  let values = new Uint8Array(0);
+
+  return (data: Uint8Array, sampleRate: number, scale: BandScale, count: number) => {
+    const bands = bandCountFor(scale, count);
+    const key = `${scale}|${bands}|${data.length}|${sampleRate}`;
+
+    if (key !== layoutKey) {
+      // Fractional bin positions: bin k is centred on k * nyquist / bins
+      const nyquist = sampleRate / 2;
+      const edges = bandEdges(scale, bands, nyquist).map(hz => (hz / nyquist) * data.length);
+      low = Float32Array.from(edges.slice(0, -1));
+      high = Float32Array.from(edges.slice(1));
+      values = new Uint8Array(bands);
+      layoutKey = key;
+    }
+
+    const last = data.length - 1;
+    for (let band = 0; band < bands; band++) {
+      const first = Math.ceil(low[band]);
+      const end = Math.min(last, Math.floor(high[band]));
+
+      if (end < first) {
+        // Narrower than a bin (the low end): interpolate at the band's centre
+        const center = Math.min(last, (low[band] + high[band]) / 2);
+        const below = Math.floor(center);
+        const above = Math.min(last, below + 1);
+        const t = center - below;
+        values[band] = data[below] * (1 - t) + data[above] * t;
+      } else {
+        // Wider than a bin: the loudest bin stands for the band
+        let peak = 0;
+        for (let bin = first; bin <= end; bin++) peak = Math.max(peak, data[bin]);
+        values[band] = peak;
+      }
+    }
+
+    return values;
+  };
+};
+
+export type BandMapper = ReturnType<typeof createBandMapper>;
@@ -0,0 +1,54 @@
+import { AudioWaveform } from 'lucide-react';
+import { z } from 'zod';
+import { beatPulse } from '@/lib/audio/beat';
+import { BAND_SCALES, createBandMapper, type BandMapper } from './bands';
+import { roundedRect } from './draw';
+import { PALETTE, paletteColor, pitchClassColor } from './palette';
+import { defineVisualizer } from './types';
+
+const COLORS = [
+  PALETTE.primary, PALETTE.secondary, PALETTE.tertiary, PALETTE.light,
+  PALETTE.accent1, PALETTE.accent2, PALETTE.accent3,
+];
+
+// Visualizer 1: Frequency bars
+export const bars = defineVisualizer({
+  id: 'bars',
+  name: 'Bars',
+  icon: AudioWaveform,
+  settings: z.object({
+    bands: z.enum(BAND_SCALES).default('semitone').describe('Frequency bands'),
+    bandCount: z.number().int().min(16).max(256).multipleOf(8).default(64).describe('Band count (not semitone)'),
+    heightFactor: z.number().min(0.1).max(1).multipleOf(0.05).default(0.8).describe('Height'),
+    radius: z.number().int().min(0).max(20).default(10).describe('Corner radius'),
+    beatPulse: z.boolean().default(true).describe('Pulse on beat'),
+    pitchColors: z.boolean().default(false).describe('Color by detected pitch'),
+  }),
+  init: (): BandMapper => createBandMapper(),
+  draw: (ctx, { data: bins, sampleRate, beat, pitch, width, height }, mapBands, settings) => {
+    const data = mapBands(bins, sampleRate, settings.bands, settings.bandCount);
+    const barWidth = width / data.length;
+    const pulse = settings.beatPulse ? 1 + 0.25 * beatPulse(beat) : 1;
+    const pitchColor = settings.pitchColors && pitch.detected ? pitchClassColor(pitch.pitchClass) : null;
+
+    for (let i = 0; i < data.length; i++) {
+      const barHeight = Math.min(height, (data[i] / 255) * height * settings.heightFactor * pulse);
+
+      // Calculate bar positions for a centered look
+      const x = i * barWidth + width / 2 - (data.length * barWidth) / 2;
+      const y = height - barHeight;
+
+      // Create gradient fill
+      const gradient = ctx.createLinearGradient(x, y, x, height);
+      gradient.addColorStop(0, pitchColor ?? paletteColor(COLORS, i, data.length));
+      gradient.addColorStop(1, 'rgba(26, 31, 44, 0.5)');
+
+      ctx.fillStyle = gradient;
+
+      // Draw with rounded corners
+      const radius = Math.min(settings.radius, barWidth * 0.5);
+      roundedRect(ctx, x, y, barWidth - 1, barHeight, radius);
+      ctx.fill();
+    }
+  },
+});
@@ -0,0 +1,68 @@
+import { Circle } from 'lucide-react';
+import { z } from 'zod';
+import { BAND_SCALES, createBandMapper, type BandMapper } from './bands';
+import { PALETTE, paletteColor, pitchClassColor } from './palette';
+import { defineVisualizer } from './types';
+
+const COLORS = [
+  PALETTE.accent1, PALETTE.primary, PALETTE.accent3, PALETTE.accent2,
+  PALETTE.secondary, PALETTE.light, PALETTE.tertiary,
+];
+
+// Visualizer 2: Circular
+export const circular = defineVisualizer({
+  id: 'circular',
+  name: 'Circular',
+  icon: Circle,
+  settings: z.object({
+    bands: z.enum(BAND_SCALES).default('semitone').describe('Frequency bands'),
+    bandCount: z.number().int().min(16).max(256).multipleOf(8).default(64).describe('Band count (not semitone)'),
+    radiusFactor: z.number().min(0.1).max(0.5).multipleOf(0.05).default(0.4).describe('Radius'),
+    lineWidth: z.number().int().min(1).max(8).default(2).describe('Line width'),
+    showDots: z.boolean().default(true).describe('Endpoint dots'),
+    beatColors: z.boolean().default(true).describe('Shift colors on beat'),
+    pitchColors: z.boolean().default(false).describe('Color by detected pitch'),
+  }),
+  init: (): BandMapper => createBandMapper(),
+  draw: (ctx, { data: bins, sampleRate, beat, pitch, width, height }, mapBands, settings) => {
+    const data = mapBands(bins, sampleRate, settings.bands, settings.bandCount);
+    // Each beat moves every spoke on to the next palette color
+    const colorShift = settings.beatColors ? (beat.count * data.length) / COLORS.length : 0;
+    const pitchColor = settings.pitchColors && pitch.detected ? pitchClassColor(pitch.pitchClass) : null;
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const maxRadius = Math.min(width, height) * settings.radiusFactor;
+
+    // Draw circular visualization
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, 5, 0, Math.PI * 2);
+    ctx.fillStyle = '#fff';
+    ctx.fill();
+
+    for (let i = 0; i < data.length; i++) {
+      const angle = (i / data.length) * Math.PI * 2;
+      const amplitude = (data[i] / 255) * maxRadius;
+
+      // Calculate points on circle
+      const x1 = centerX + Math.cos(angle) * amplitude;
+      const y1 = centerY + Math.sin(angle) * amplitude;
+
+      // Draw lines
+      ctx.beginPath();
+      ctx.moveTo(centerX, centerY);
+      ctx.lineTo(x1, y1);
+      ctx.strokeStyle = pitchColor ?? paletteColor(COLORS, i + colorShift, data.length);
+      ctx.lineWidth = settings.lineWidth;
+      ctx.stroke();
+
+      if (!settings.showDots) continue;
+
+      // Draw circles at the endpoints
+      ctx.beginPath();
+      const circleSize = Math.max(2, (data[i] / 255) * 8);
+      ctx.arc(x1, y1, circleSize, 0, Math.PI * 2);
+      ctx.fillStyle = pitchColor ?? paletteColor(COLORS, i + colorShift, data.length);
+      ctx.fill();
+    }
+  },
+});
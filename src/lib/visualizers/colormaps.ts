@@ -0,0 +1,44 @@
+import { PALETTE } from './palette';
+
+// Magnitude-to-color lookup tables for heatmap-style plugins. Each map is 256
+// RGB triples, so a byte magnitude indexes straight into it.
+
+export type ColormapId = 'viridis' | 'magma' | 'palette';
+
+export const COLORMAP_IDS: [ColormapId, ...ColormapId[]] = ['viridis', 'magma', 'palette'];
+
+// Evenly spaced stops, sampled from matplotlib's maps
+const STOPS: Record<ColormapId, string[]> = {
+  viridis: ['#440154', '#472c7a', '#3b518b', '#2c718e', '#21908d', '#27ad81', '#5cc863', '#aadc32', '#fde725'],
+  magma: ['#000004', '#1c1044', '#4f127b', '#812581', '#b5367a', '#e55064', '#fb8761', '#fec287', '#fcfdbf'],
+  palette: ['#000000', PALETTE.dark, PALETTE.tertiary, PALETTE.primary, PALETTE.accent1, PALETTE.light],
+};
+
+const parseHex = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+const buildColormap = (stops: string[]) => {
+  const colors = stops.map(parseHex);
+  const table = new Uint8ClampedArray(256 * 3);
+
+  for (let i = 0; i < 256; i++) {
+    const position = (i / 255) * (colors.length - 1);
+    const index = Math.min(colors.length - 2, Math.floor(position));
+    const t = position - index;
+    for (let channel = 0; channel < 3; channel++) {
+      table[i * 3 + channel] = colors[index][channel] + (colors[index + 1][channel] - colors[index][channel]) * t;
+    }
+  }
+
+  return table;
+};
+
+const cache = new Map<ColormapId, Uint8ClampedArray>();
+
+export const getColormap = (id: ColormapId) => {
+  let table = cache.get(id);
+  if (!table) {
+    table = buildColormap(STOPS[id]);
+    cache.set(id, table);
+  }
+  return table;
+};
@@ -0,0 +1,29 @@
+import { bars } from './bars';
+import { circular } from './circular';
+import { oscilloscope } from './oscilloscope';
+import { particles } from './particles';
+import { registerVisualizer } from './registry';
+import { spectrogram } from './spectrogram';
+import { wave } from './wave';
+
+// Register every built-in mode here; Controls and Visualizer both read the
+// registry, so a new plugin only needs a line below
+registerVisualizer(bars);
+registerVisualizer(circular);
+registerVisualizer(wave);
+registerVisualizer(particles);
+registerVisualizer(spectrogram);
+registerVisualizer(oscilloscope);
+
+export const DEFAULT_VISUALIZER = bars.id;
+
+export { getVisualizer, listVisualizers, registerVisualizer } from './registry';
+export type { VisualizerContext, VisualizerFrame, VisualizerPlugin, VisualizerSize } from './types';
+export { defineVisualizer } from './types';
+export { describeSettings, resolveSettings } from './settings';
+export type { SettingControl, VisualizerSettingsValues } from './settings';
+export { COLORMAP_IDS, getColormap } from './colormaps';
+export { BAND_SCALES, bandCountFor, createBandMapper } from './bands';
+export type { BandMapper, BandScale } from './bands';
+export type { ColormapId } from './colormaps';
+export { PALETTE, paletteColor, pitchClassColor } from './palette';
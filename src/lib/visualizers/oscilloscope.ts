@@ -0,0 +1,85 @@
+import { Activity } from 'lucide-react';
+import { z } from 'zod';
+import { PALETTE } from './palette';
+import { defineVisualizer, type VisualizerContext } from './types';
+
+// Find where the signal rises through the trigger level, as a fractional
+// sample index, so each frame starts at the same point in the cycle. Only the
+// part of the buffer that still leaves a full span after it is searched.
+const findTrigger = (samples: Float32Array, level: number, span: number) => {
+  const end = samples.length - span;
+  for (let i = 1; i < end; i++) {
+    const previous = samples[i - 1];
+    const current = samples[i];
+    if (previous < level && current >= level) {
+      // Interpolate between the two samples to avoid a one-sample jitter
+      return i - 1 + (level - previous) / (current - previous);
+    }
+  }
+  return 0;
+};
+
+const drawGrid = (ctx: VisualizerContext, width: number, height: number) => {
+  ctx.strokeStyle = 'rgba(214, 188, 250, 0.15)';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(0, height / 2);
+  ctx.lineTo(width, height / 2);
+  ctx.moveTo(width / 2, 0);
+  ctx.lineTo(width / 2, height);
+  ctx.stroke();
+};
+
+// Visualizer 6: Oscilloscope
+export const oscilloscope = defineVisualizer({
+  id: 'oscilloscope',
+  name: 'Oscilloscope',
+  icon: Activity,
+  settings: z.object({
+    mode: z.enum(['scope', 'xy']).default('scope').describe('Mode'),
+    timebase: z.number().min(2).max(40).multipleOf(1).default(10).describe('Timebase (ms)'),
+    gain: z.number().min(0.5).max(10).multipleOf(0.5).default(1).describe('Gain'),
+    trigger: z.boolean().default(true).describe('Trigger'),
+    triggerLevel: z.number().min(-1).max(1).multipleOf(0.05).default(0).describe('Trigger level'),
+    lineWidth: z.number().min(1).max(6).multipleOf(0.5).default(2).describe('Line width'),
+  }),
+  init: () => null,
+  draw: (ctx, { waveform, left, right, sampleRate, width, height }, _state, settings) => {
+    drawGrid(ctx, width, height);
+
+    ctx.lineWidth = settings.lineWidth;
+    ctx.strokeStyle = PALETTE.light;
+    ctx.shadowColor = PALETTE.primary;
+    ctx.shadowBlur = 8;
+    ctx.beginPath();
+
+    if (settings.mode === 'xy') {
+      // Left drives x, right drives y: a mono signal is a diagonal line,
+      // phase differences open it into ellipses and Lissajous figures
+      const radius = Math.min(width, height) / 2;
+      for (let i = 0; i < left.length; i++) {
+        const x = width / 2 + Math.max(-1, Math.min(1, left[i] * settings.gain)) * radius;
+        const y = height / 2 - Math.max(-1, Math.min(1, right[i] * settings.gain)) * radius;
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      }
+    } else {
+      const span = Math.min(waveform.length - 1, Math.round(settings.timebase / 1000 * sampleRate));
+      const start = settings.trigger ? findTrigger(waveform, settings.triggerLevel, span) : 0;
+      const offset = start - Math.floor(start);
+      const first = Math.floor(start);
+
+      for (let i = 0; i <= span; i++) {
+        // Shift by the sub-sample part of the trigger point to keep it still
+        const x = ((i - offset) / span) * width;
+        const sample = waveform[Math.min(waveform.length - 1, first + i)] * settings.gain;
+        const y = height / 2 - Math.max(-1, Math.min(1, sample)) * (height / 2);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      }
+    }
+
+    ctx.stroke();
+    ctx.shadowBlur = 0;
+  },
+});
@@ -0,0 +1,22 @@
+// Project palette, matching the visualizer colors in tailwind.config.ts
+export const PALETTE = {
+  primary: '#9b87f5',
+  secondary: '#7E69AB',
+  tertiary: '#6E59A5',
+  dark: '#1A1F2C',
+  light: '#D6BCFA',
+  accent1: '#D946EF',
+  accent2: '#F97316',
+  accent3: '#0EA5E9',
+};
+
+// Get a color based on the position in the dataset
+export const paletteColor = (colors: string[], index: number, total: number) => {
+  const colorPosition = Math.floor((index / total) * colors.length);
+  return colors[colorPosition % colors.length];
+};
+
+// One hue per pitch class around the color wheel, C at the project violet, so
+// a note keeps its color in every octave
+export const pitchClassColor = (pitchClass: number, lightness = 70) =>
+  `hsl(${(255 + pitchClass * 30) % 360}, 100%, ${lightness}%)`;
@@ -0,0 +1,159 @@
+import { Sparkles } from 'lucide-react';
+import { z } from 'zod';
+import { SEMITONE_RANGE } from './bands';
+import { pitchClassColor } from './palette';
+import { defineVisualizer } from './types';
+
+interface Particle {
+  x: number;
+  y: number;
+  size: number;
+  speedX: number;
+  speedY: number;
+  color: string;
+}
+
+const createParticle = (width: number, height: number): Particle => ({
+  x: Math.random() * width,
+  y: Math.random() * height,
+  size: Math.random() * 5 + 2,
+  speedX: Math.random() * 2 - 1,
+  speedY: Math.random() * 2 - 1,
+  color: `hsl(${Math.random() * 60 + 250}, 100%, 70%)`,
+});
+
+// Short-lived sparks thrown up from a played key
+interface Spark {
+  x: number;
+  y: number;
+  speedX: number;
+  speedY: number;
+  life: number;  // 1 at birth, gone at 0
+  color: string;
+}
+
+interface ParticlesState {
+  swarm: Particle[];
+  sparks: Spark[];
+}
+
+const SPARK_GRAVITY = 0.08;
+const SPARK_FADE = 0.02;
+
+// Burst from where the key sits on the keyboard, sized by velocity
+const spawnSparks = (sparks: Spark[], note: number, velocity: number, pitchClass: number, width: number, height: number) => {
+  const span = SEMITONE_RANGE.high - SEMITONE_RANGE.low;
+  const x = ((note - SEMITONE_RANGE.low) / span) * width;
+  const count = Math.round(6 + velocity * 18);
+  const color = pitchClassColor(pitchClass);
+  for (let i = 0; i < count; i++) {
+    sparks.push({
+      x,
+      y: height,
+      speedX: (Math.random() - 0.5) * 4,
+      speedY: -(4 + Math.random() * 6 * (0.5 + velocity)),
+      life: 1,
+      color,
+    });
+  }
+};
+
+// Visualizer 4: Particles
+export const particles = defineVisualizer({
+  id: 'particles',
+  name: 'Particles',
+  icon: Sparkles,
+  settings: z.object({
+    count: z.number().int().min(10).max(300).multipleOf(10).default(100).describe('Particle count'),
+    connectionDistance: z.number().int().min(0).max(250).multipleOf(10).default(100).describe('Connection distance'),
+    reactivity: z.number().min(0).max(10).multipleOf(0.5).default(5).describe('Reactivity'),
+    // Input already carries the analyser gain, so this only shapes the response
+    intensityBoost: z.number().min(0.2).max(3).multipleOf(0.1).default(1.2).describe('Intensity boost'),
+    noteBursts: z.boolean().default(true).describe('Note bursts'),
+  }),
+  init: ({ width, height }, settings): ParticlesState => ({
+    swarm: Array.from({ length: settings.count }, () => createParticle(width, height)),
+    sparks: [],
+  }),
+  draw: (ctx, { data, notes, width, height }, state, settings) => {
+    const particleList = state.swarm;
+
+    // Grow or shrink the swarm in place so changing the count doesn't reset it
+    while (particleList.length < settings.count) particleList.push(createParticle(width, height));
+    if (particleList.length > settings.count) particleList.length = settings.count;
+
+    const averageFrequency = data.reduce((sum, value) => sum + value, 0) / data.length;
+    const intensity = Math.min(1, averageFrequency / 255 * settings.intensityBoost);
+    const maxDistance = settings.connectionDistance * (1 + intensity);
+
+    // Update and draw particles
+    for (let i = 0; i < particleList.length; i++) {
+      const particle = particleList[i];
+
+      // Update position with audio reactivity
+      particle.x += particle.speedX * (1 + intensity * settings.reactivity);
+      particle.y += particle.speedY * (1 + intensity * settings.reactivity);
+
+      // Wrap around edges
+      if (particle.x > width) particle.x = 0;
+      if (particle.x < 0) particle.x = width;
+      if (particle.y > height) particle.y = 0;
+      if (particle.y < 0) particle.y = height;
+
+      // Draw particle
+      ctx.beginPath();
+      const size = particle.size * (1 + intensity * 3);  // Increased size reactivity
+      ctx.arc(particle.x, particle.y, size, 0, Math.PI * 2);
+      ctx.fillStyle = particle.color;
+      ctx.globalAlpha = 0.7 + intensity * 0.3;
+      ctx.fill();
+
+      // Connect particles that are close to each other
+      for (let j = i + 1; j < particleList.length; j++) {
+        const particle2 = particleList[j];
+        const dx = particle.x - particle2.x;
+        const dy = particle.y - particle2.y;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+
+        if (distance < maxDistance) {
+          ctx.beginPath();
+          ctx.moveTo(particle.x, particle.y);
+          ctx.lineTo(particle2.x, particle2.y);
+          ctx.strokeStyle = particle.color;
+          ctx.globalAlpha = (1 - distance / maxDistance) * 0.5;
+          ctx.lineWidth = 1;
+          ctx.stroke();
+        }
+      }
+    }
+
+    ctx.globalAlpha = 1;
+
+    if (settings.noteBursts) {
+      notes.forEach(event => {
+        if (event.type === 'noteOn') {
+          spawnSparks(state.sparks, event.note, event.velocity, event.pitchClass, width, height);
+        }
+      });
+    }
+
+    // Move, fade and drop finished sparks in one pass
+    let alive = 0;
+    for (const spark of state.sparks) {
+      spark.x += spark.speedX;
+      spark.y += spark.speedY;
+      spark.speedY += SPARK_GRAVITY;
+      spark.life -= SPARK_FADE;
+      if (spark.life <= 0) continue;
+
+      ctx.beginPath();
+      ctx.arc(spark.x, spark.y, 2 + spark.life * 3, 0, Math.PI * 2);
+      ctx.fillStyle = spark.color;
+      ctx.globalAlpha = spark.life;
+      ctx.fill();
+      state.sparks[alive++] = spark;
+    }
+    state.sparks.length = alive;
+    ctx.globalAlpha = 1;
+  },
+});
@@ -0,0 +1,15 @@
+import type { VisualizerPlugin } from './types';
+
+const plugins = new Map<string, VisualizerPlugin>();
+
+export const registerVisualizer = (plugin: VisualizerPlugin) => {
+  if (plugins.has(plugin.id)) {
+    console.warn(`Visualizer "${plugin.id}" is already registered, replacing it`);
+  }
+  plugins.set(plugin.id, plugin);
+};
+
+// Plugins in registration order, which is the order Controls lists them in
+export const listVisualizers = () => Array.from(plugins.values());
+
+export const getVisualizer = (id: string) => plugins.get(id);
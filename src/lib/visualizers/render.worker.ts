@@ -0,0 +1,46 @@
+import { createVisualizerRenderer, type VisualizerRenderer } from './renderer';
+import { frameTransferList } from '@/lib/frameSource';
+import type { RenderWorkerMessage, RenderWorkerReply } from './workerRenderer';
+
+// Owns the transferred OffscreenCanvas and draws each frame the page posts.
+// The page sends 'init' first, and messages arrive in order.
+
+let renderer: VisualizerRenderer | null = null;
+
+const handle = (message: RenderWorkerMessage) => {
+  if (message.type === 'init') {
+    const ctx = message.canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get a 2D context for the offscreen canvas');
+    renderer = createVisualizerRenderer(ctx);
+    return;
+  }
+  // Nothing to draw on until 'init' has arrived (or if it failed); a frame
+  // is still handed back below
+  if (!renderer) return;
+
+  switch (message.type) {
+    case 'plugin':
+      renderer.setPlugin(message.id, message.settings);
+      break;
+    case 'settings':
+      renderer.setSettings(message.settings);
+      break;
+    case 'resize':
+      renderer.resize(message.size);
+      break;
+    case 'frame':
+      renderer.draw(message.frame, message.notes);
+      break;
+  }
+};
+
+self.onmessage = (event: MessageEvent<RenderWorkerMessage>) => {
+  const message = event.data;
+  handle(message);
+
+  // Hand the frame's buffers back for reuse
+  if (message.type === 'frame') {
+    const reply: RenderWorkerReply = { type: 'release', frame: message.frame };
+    self.postMessage(reply, { transfer: frameTransferList(message.frame) });
+  }
+};
@@ -0,0 +1,98 @@
+import type { AnalyserFrame } from '@/lib/frameSource';
+import type { NoteBusEvent } from '@/lib/noteBus';
+import { DEFAULT_VISUALIZER, getVisualizer } from './index';
+import { resolveSettings, type VisualizerSettingsValues } from './settings';
+import type { VisualizerContext, VisualizerPlugin, VisualizerSize } from './types';
+
+// Device pixels per CSS pixel are capped at the render scale, so 4K and
+// Retina screens can trade sharpness for frame rate
+export const MIN_RENDER_SCALE = 0.5;
+export const MAX_RENDER_SCALE = 3;
+export const DEFAULT_RENDER_SCALE = 2;
+
+// Size in CSS pixels plus how many backing-store pixels back each one
+export interface CanvasSize extends VisualizerSize {
+  pixelRatio: number;
+}
+
+export const pixelRatioFor = (renderScale: number, devicePixelRatio = 1) =>
+  Math.min(devicePixelRatio, renderScale);
+
+// Drives the active plugin on one canvas. The same renderer runs on the page
+// and inside the render worker, so both paths draw identically.
+export interface VisualizerRenderer {
+  setPlugin: (id: string, settings?: VisualizerSettingsValues) => void;
+  setSettings: (settings?: VisualizerSettingsValues) => void;
+  resize: (size: CanvasSize) => void;
+  draw: (frame: AnalyserFrame, notes: NoteBusEvent[]) => void;
+  dispose: () => void;
+}
+
+const resolvePlugin = (id: string) => getVisualizer(id) ?? getVisualizer(DEFAULT_VISUALIZER)!;
+
+export const createVisualizerRenderer = (ctx: VisualizerContext): VisualizerRenderer => {
+  let plugin: VisualizerPlugin = resolvePlugin(DEFAULT_VISUALIZER);
+  let settings = resolveSettings(plugin.settings);
+  // Plugins always work in CSS pixels; the context transform maps them onto
+  // the larger backing store
+  let size: VisualizerSize = { width: ctx.canvas.width, height: ctx.canvas.height };
+  let pixelRatio = 1;
+  let state: unknown = plugin.init(size, settings);
+
+  // Fresh plugin state whenever the plugin or the canvas size changes;
+  // settings changes keep it
+  const restart = () => {
+    plugin.dispose?.(state);
+    state = plugin.init(size, settings);
+  };
+
+  return {
+    setPlugin: (id, values) => {
+      const next = resolvePlugin(id);
+      plugin.dispose?.(state);
+      plugin = next;
+      settings = resolveSettings(plugin.settings, values);
+      state = plugin.init(size, settings);
+    },
+    setSettings: (values) => {
+      settings = resolveSettings(plugin.settings, values);
+    },
+    resize: (next) => {
+      if (next.width === size.width && next.height === size.height && next.pixelRatio === pixelRatio) return;
+      const resized = next.width !== size.width || next.height !== size.height;
+      size = { width: next.width, height: next.height };
+      pixelRatio = next.pixelRatio;
+      // Setting the canvas size clears it and resets the transform
+      ctx.canvas.width = Math.max(1, Math.round(next.width * pixelRatio));
+      ctx.canvas.height = Math.max(1, Math.round(next.height * pixelRatio));
+      ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+      // Only a change in layout size invalidates plugin state
+      if (resized) restart();
+    },
+    draw: (frame, notes) => {
+      // Clear canvas with a solid black background first
+      ctx.fillStyle = 'rgb(0, 0, 0)';
+      ctx.fillRect(0, 0, size.width, size.height);
+
+      // Then add semi-transparent layer for trail effect
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
+      ctx.fillRect(0, 0, size.width, size.height);
+
+      plugin.draw(ctx, {
+        data: frame.frequency,
+        spectrum: frame.spectrum,
+        waveform: frame.waveform,
+        left: frame.left,
+        right: frame.right,
+        sampleRate: frame.sampleRate,
+        beat: frame.beat,
+        pitch: frame.pitch,
+        notes,
+        ...size,
+      }, state, settings);
+    },
+    dispose: () => {
+      plugin.dispose?.(state);
+    },
+  };
+};
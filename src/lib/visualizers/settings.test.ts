@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { listVisualizers } from '.';
+import { describeSettings, resolveSettings } from './settings';
+
+const schema = z.object({
+  gain: z.number().min(0).max(2).multipleOf(0.1).default(1).describe('Gain'),
+  count: z.number().int().min(8).max(128).default(32),
+  smooth: z.number().min(0).max(1).default(0.5),
+  mirror: z.boolean().default(false).describe('Mirror'),
+  scale: z.enum(['log', 'mel', 'bark']).describe('Scale').default('log'),
+});
+
+describe('resolveSettings', () => {
+  it('fills every field from the schema defaults', () => {
+    expect(resolveSettings(schema)).toEqual({ gain: 1, count: 32, smooth: 0.5, mirror: false, scale: 'log' });
+  });
+
+  it('applies stored values on top of the defaults', () => {
+    expect(resolveSettings(schema, { gain: 1.5, scale: 'mel' })).toMatchObject({ gain: 1.5, count: 32, scale: 'mel' });
+  });
+
+  it('falls back to the default for each stored value that no longer validates', () => {
+    const resolved = resolveSettings(schema, {
+      gain: 5,          // above max
+      count: 4,         // below min
+      smooth: 0.25,     // fine
+      mirror: 'yes',    // wrong type
+      scale: 'linear',  // no longer an option
+    });
+
+    expect(resolved).toEqual({ gain: 1, count: 32, smooth: 0.25, mirror: false, scale: 'log' });
+  });
+
+  it('drops keys the schema no longer has', () => {
+    expect(resolveSettings(schema, { removed: 3, smooth: 0.75 })).toEqual({
+      gain: 1, count: 32, smooth: 0.75, mirror: false, scale: 'log',
+    });
+  });
+});
+
+describe('describeSettings', () => {
+  it('describes each field as the control the panel renders', () => {
+    expect(describeSettings(schema)).toEqual([
+      { kind: 'slider', key: 'gain', label: 'Gain', min: 0, max: 2, step: 0.1 },
+      { kind: 'slider', key: 'count', label: 'count', min: 8, max: 128, step: 1 },
+      { kind: 'slider', key: 'smooth', label: 'smooth', min: 0, max: 1, step: 0.01 },
+      { kind: 'switch', key: 'mirror', label: 'Mirror' },
+      { kind: 'select', key: 'scale', label: 'Scale', options: ['log', 'mel', 'bark'] },
+    ]);
+  });
+
+  it('skips fields it has no control for', () => {
+    const withColor = schema.extend({ color: z.string().default('#fff') });
+
+    expect(describeSettings(withColor).map(control => control.key)).not.toContain('color');
+  });
+
+  it.each(listVisualizers().map(plugin => [plugin.id, plugin] as const))(
+    'gives %s a control for every setting and defaults within range',
+    (_, plugin) => {
+      const defaults = resolveSettings(plugin.settings);
+      const controls = describeSettings(plugin.settings);
+
+      expect(controls.map(control => control.key)).toEqual(Object.keys(defaults));
+      controls.forEach(control => {
+        const value = defaults[control.key];
+        if (control.kind === 'slider') {
+          expect(value).toBeGreaterThanOrEqual(control.min);
+          expect(value).toBeLessThanOrEqual(control.max);
+        } else if (control.kind === 'select') {
+          expect(control.options).toContain(value);
+        } else {
+          expect(typeof value).toBe('boolean');
+        }
+      });
+    }
+  );
+});
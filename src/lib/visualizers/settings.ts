@@ -0,0 +1,66 @@
+import { z } from 'zod';
+
+// Stored per plugin id; only values the user has changed are kept
+export type VisualizerSettingsValues = Record<string, unknown>;
+
+export type SettingControl =
+  | { kind: 'slider'; key: string; label: string; min: number; max: number; step: number }
+  | { kind: 'switch'; key: string; label: string }
+  | { kind: 'select'; key: string; label: string; options: string[] };
+
+// Peel off .default() / .optional() to reach the underlying type. Labels come
+// from .describe(), which may sit on either layer.
+const unwrap = (schema: z.ZodTypeAny): { inner: z.ZodTypeAny; description?: string } => {
+  let inner = schema;
+  let description = schema.description;
+  while (inner instanceof z.ZodDefault || inner instanceof z.ZodOptional) {
+    inner = inner instanceof z.ZodDefault ? inner._def.innerType : inner.unwrap();
+    description = description ?? inner.description;
+  }
+  return { inner, description };
+};
+
+// Turn a plugin's settings schema into the list of controls that edit it.
+// Numbers need .min(), .max() and ideally .multipleOf() to become sliders.
+export const describeSettings = (schema: z.AnyZodObject): SettingControl[] => {
+  const controls: SettingControl[] = [];
+
+  Object.entries(schema.shape as z.ZodRawShape).forEach(([key, field]) => {
+    const { inner, description } = unwrap(field);
+    const label = description ?? key;
+
+    if (inner instanceof z.ZodNumber) {
+      const step = inner._def.checks.find(check => check.kind === 'multipleOf');
+      controls.push({
+        kind: 'slider',
+        key,
+        label,
+        min: inner.minValue ?? 0,
+        max: inner.maxValue ?? 1,
+        step: step?.kind === 'multipleOf' ? step.value : inner.isInt ? 1 : 0.01,
+      });
+    } else if (inner instanceof z.ZodBoolean) {
+      controls.push({ kind: 'switch', key, label });
+    } else if (inner instanceof z.ZodEnum) {
+      controls.push({ kind: 'select', key, label, options: inner.options });
+    }
+  });
+
+  return controls;
+};
+
+// Apply stored values on top of the schema defaults, dropping any that no
+// longer validate (e.g. after a plugin changed its ranges)
+export const resolveSettings = <Schema extends z.AnyZodObject>(
+  schema: Schema,
+  values: VisualizerSettingsValues = {}
+): z.infer<Schema> => {
+  const result = schema.safeParse(values);
+  if (result.success) return result.data;
+
+  const valid = { ...values };
+  result.error.issues.forEach(issue => {
+    delete valid[String(issue.path[0])];
+  });
+  return schema.parse(valid);
+};
@@ -0,0 +1,120 @@
+import { AudioLines } from 'lucide-react';
+import { z } from 'zod';
+import { COLORMAP_IDS, getColormap } from './colormaps';
+import { defineVisualizer } from './types';
+
+// Height of the history image; frequency bins are resampled onto these rows
+const ROWS = 256;
+
+type Surface = OffscreenCanvas | HTMLCanvasElement;
+
+interface SpectrogramState {
+  bins: number;
+  columns: number;
+  // Ring buffer of raw analyser frames, one column per frame
+  history: Uint8Array;
+  writeColumn: number;
+  // The same ring rendered to colors; drawn in two slices to scroll it
+  image: ImageData;
+  surface: Surface;
+  surfaceCtx: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+  rowBins: Uint16Array;
+  paintedWith: string;
+}
+
+// Workers have no document, the page may have no OffscreenCanvas
+const createSurface = (width: number, height: number): Surface => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const createState = (bins: number, columns: number): SpectrogramState => {
+  const surface = createSurface(columns, ROWS);
+  const image = new ImageData(columns, ROWS);
+  // Start opaque black so unfilled history reads as silence
+  for (let i = 3; i < image.data.length; i += 4) image.data[i] = 255;
+
+  return {
+    bins,
+    columns,
+    history: new Uint8Array(bins * columns),
+    writeColumn: 0,
+    image,
+    surface,
+    surfaceCtx: surface.getContext('2d') as SpectrogramState['surfaceCtx'],
+    rowBins: new Uint16Array(ROWS),
+    paintedWith: '',
+  };
+};
+
+// Which frequency bin each image row shows, top row highest. The log axis
+// skips the DC bin and gives each octave the same height.
+const mapRows = (rowBins: Uint16Array, bins: number, scale: 'linear' | 'log') => {
+  const top = bins - 1;
+  for (let row = 0; row < ROWS; row++) {
+    const fraction = (ROWS - 1 - row) / (ROWS - 1);
+    rowBins[row] = scale === 'log' ? Math.round(Math.pow(top, fraction)) : Math.round(fraction * top);
+  }
+};
+
+const paintColumn = (state: SpectrogramState, column: number, colormap: Uint8ClampedArray) => {
+  const { bins, columns, history, image, rowBins } = state;
+  const offset = column * bins;
+
+  for (let row = 0; row < ROWS; row++) {
+    const magnitude = history[offset + rowBins[row]];
+    const pixel = (row * columns + column) * 4;
+    image.data[pixel] = colormap[magnitude * 3];
+    image.data[pixel + 1] = colormap[magnitude * 3 + 1];
+    image.data[pixel + 2] = colormap[magnitude * 3 + 2];
+  }
+};
+
+// Visualizer 5: Spectrogram
+export const spectrogram = defineVisualizer({
+  id: 'spectrogram',
+  name: 'Spectrogram',
+  icon: AudioLines,
+  settings: z.object({
+    colormap: z.enum(COLORMAP_IDS).default('viridis').describe('Colormap'),
+    scale: z.enum(['log', 'linear']).default('log').describe('Frequency axis'),
+    history: z.number().int().min(120).max(1200).multipleOf(60).default(480).describe('History (frames)'),
+  }),
+  init: (_size, settings) => createState(128, settings.history),
+  draw: (ctx, { data, width, height }, state, settings) => {
+    // Start over when the analyser size or history length changes
+    if (state.bins !== data.length || state.columns !== settings.history) {
+      Object.assign(state, createState(data.length, settings.history));
+    }
+
+    const colormap = getColormap(settings.colormap);
+    const paintKey = `${settings.colormap}|${settings.scale}`;
+    if (state.paintedWith !== paintKey) {
+      // Recolor the whole history so the change applies to what's on screen
+      mapRows(state.rowBins, state.bins, settings.scale);
+      for (let column = 0; column < state.columns; column++) {
+        paintColumn(state, column, colormap);
+      }
+      state.surfaceCtx.putImageData(state.image, 0, 0);
+      state.paintedWith = paintKey;
+    }
+
+    const column = state.writeColumn;
+    state.history.set(data, column * state.bins);
+    paintColumn(state, column, colormap);
+    state.surfaceCtx.putImageData(state.image, 0, 0, column, 0, 1, ROWS);
+    state.writeColumn = (column + 1) % state.columns;
+
+    // Oldest column on the left, newest on the right
+    const oldest = state.writeColumn;
+    const columnWidth = width / state.columns;
+    const olderCount = state.columns - oldest;
+    ctx.drawImage(state.surface, oldest, 0, olderCount, ROWS, 0, 0, olderCount * columnWidth, height);
+    if (oldest > 0) {
+      ctx.drawImage(state.surface, 0, 0, oldest, ROWS, olderCount * columnWidth, 0, oldest * columnWidth, height);
+    }
+  },
+});
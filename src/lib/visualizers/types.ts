@@ -0,0 +1,57 @@
+import type { LucideIcon } from 'lucide-react';
+import type { z } from 'zod';
+import type { BeatInfo } from '@/lib/audio/beat';
+import type { PitchInfo } from '@/lib/audio/pitch';
+import type { NoteBusEvent } from '@/lib/noteBus';
+
+export interface VisualizerSize {
+  width: number;
+  height: number;
+}
+
+// Plugins draw the same way on the page and inside the render worker
+export type VisualizerContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Everything a plugin gets to draw one frame
+export interface VisualizerFrame extends VisualizerSize {
+  // Frequency bins after the analyser's gain stage, 0-255
+  data: Uint8Array;
+  // The same bins as floats from 0 (unclipped), at full analyser precision
+  // when float output is selected
+  spectrum: Float32Array;
+  // Time-domain samples in -1..1: the mono mix and each stereo channel
+  waveform: Float32Array;
+  left: Float32Array;
+  right: Float32Array;
+  sampleRate: number;
+  beat: BeatInfo;
+  pitch: PitchInfo;
+  // Notes that started or stopped since the previous frame, oldest first
+  notes: NoteBusEvent[];
+}
+
+// A visualizer mode. State is private to the plugin and lives from init to
+// dispose; settings are validated against the plugin's zod schema.
+export interface VisualizerPlugin<
+  Schema extends z.AnyZodObject = z.AnyZodObject,
+  State = unknown,
+> {
+  id: string;
+  name: string;
+  icon: LucideIcon;
+  settings: Schema;
+  init: (size: VisualizerSize, settings: z.infer<Schema>) => State;
+  draw: (
+    ctx: VisualizerContext,
+    frame: VisualizerFrame,
+    state: State,
+    settings: z.infer<Schema>
+  ) => void;
+  dispose?: (state: State) => void;
+}
+
+// Keeps a plugin's own State and settings types checked at its definition,
+// then erases them so plugins of different shapes can share one registry
+export const defineVisualizer = <Schema extends z.AnyZodObject, State>(
+  plugin: VisualizerPlugin<Schema, State>
+) => plugin as unknown as VisualizerPlugin;
@@ -0,0 +1,65 @@
+import { Music } from 'lucide-react';
+import { z } from 'zod';
+import { beatPulse } from '@/lib/audio/beat';
+import { defineVisualizer } from './types';
+
+// The wave's shape is defined over this many points, whatever the FFT size
+const WAVE_POINTS = 128;
+
+interface WaveState {
+  phase: number;
+}
+
+// Visualizer 3: Wave
+export const wave = defineVisualizer({
+  id: 'wave',
+  name: 'Wave',
+  icon: Music,
+  settings: z.object({
+    heightFactor: z.number().min(0.1).max(0.5).multipleOf(0.05).default(0.4).describe('Height'),
+    frequency: z.number().min(0.01).max(0.5).multipleOf(0.01).default(0.1).describe('Wave frequency'),
+    speed: z.number().min(0).max(0.3).multipleOf(0.01).default(0.05).describe('Speed'),
+    style: z.enum(['filled', 'line']).default('filled').describe('Style'),
+    beatFlash: z.boolean().default(true).describe('Flash on beat'),
+  }),
+  init: (): WaveState => ({ phase: 0 }),
+  draw: (ctx, { data, beat, width, height }, state, settings) => {
+    const flash = settings.beatFlash ? beatPulse(beat, 6) : 0;
+
+    ctx.beginPath();
+    ctx.moveTo(0, height / 2);
+
+    // Create wave path
+    for (let i = 0; i < data.length; i++) {
+      const x = (i / data.length) * width;
+      const y = height / 2 + ((data[i] / 255) * height * settings.heightFactor) * Math.sin((i / data.length) * WAVE_POINTS * settings.frequency + state.phase);
+
+      if (i === 0) {
+        ctx.moveTo(x, y);
+      } else {
+        ctx.lineTo(x, y);
+      }
+    }
+
+    // Complete the path back to the bottom
+    ctx.lineTo(width, height / 2);
+
+    if (settings.style === 'filled') {
+      // Fill with gradient
+      const gradient = ctx.createLinearGradient(0, 0, 0, height);
+      gradient.addColorStop(0, `rgba(155, 135, 245, ${0.7 + flash * 0.3})`);
+      gradient.addColorStop(1, 'rgba(155, 135, 245, 0)');
+
+      ctx.fillStyle = gradient;
+      ctx.fill();
+    }
+
+    // Stroke
+    ctx.lineWidth = 3 + flash * 3;
+    ctx.strokeStyle = `rgba(214, 188, 250, ${0.8 + flash * 0.2})`;
+    ctx.stroke();
+
+    // Advance the phase for animation
+    state.phase = (state.phase + settings.speed) % (Math.PI * 2);
+  },
+});
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createWorkerRenderer } from './workerRenderer';
+
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  posted: unknown[] = [];
+  terminated = false;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(message: unknown) {
+    this.posted.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  fail(message: string) {
+    this.onerror?.({ message } as ErrorEvent);
+  }
+}
+
+const createCanvas = () => ({ transferControlToOffscreen: () => ({}) }) as unknown as HTMLCanvasElement;
+
+describe('createWorkerRenderer', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('hands the canvas to the worker', () => {
+    createWorkerRenderer(createCanvas());
+    expect(FakeWorker.instances[0].posted[0]).toMatchObject({ type: 'init' });
+  });
+
+  it('reports a worker error and stops the worker', () => {
+    const onError = vi.fn();
+    createWorkerRenderer(createCanvas(), { onError });
+    const [worker] = FakeWorker.instances;
+
+    worker.fail('Uncaught TypeError: x is undefined');
+    expect(onError).toHaveBeenCalledWith('Uncaught TypeError: x is undefined');
+    expect(worker.terminated).toBe(true);
+  });
+
+  it('still reports an error that comes without a message', () => {
+    const onError = vi.fn();
+    createWorkerRenderer(createCanvas(), { onError });
+
+    FakeWorker.instances[0].fail('');
+    expect(onError).toHaveBeenCalledWith('The render worker could not be started');
+  });
+});
@@ -0,0 +1,76 @@
+import { copyFrame, frameTransferList, type AnalyserFrame } from '@/lib/frameSource';
+import type { NoteBusEvent } from '@/lib/noteBus';
+import type { CanvasSize, VisualizerRenderer } from './renderer';
+import type { VisualizerSettingsValues } from './settings';
+
+// Messages from the page to the render worker
+export type RenderWorkerMessage =
+  | { type: 'init'; canvas: OffscreenCanvas }
+  | { type: 'plugin'; id: string; settings?: VisualizerSettingsValues }
+  | { type: 'settings'; settings?: VisualizerSettingsValues }
+  | { type: 'resize'; size: CanvasSize }
+  | { type: 'frame'; frame: AnalyserFrame; notes: NoteBusEvent[] };
+
+// Messages back: each frame is returned once drawn so its buffers can be reused
+export type RenderWorkerReply = { type: 'release'; frame: AnalyserFrame };
+
+// Frames posted but not yet drawn. When the worker falls behind we drop new
+// frames rather than queue them, so the picture never lags the audio. Notes
+// from dropped frames ride along with the next one that is sent.
+const MAX_FRAMES_IN_FLIGHT = 2;
+
+export const isWorkerRenderingSupported = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof HTMLCanvasElement.prototype.transferControlToOffscreen === 'function';
+
+export interface WorkerRendererOptions {
+  // The worker failed to load or threw while drawing. The canvas stays with
+  // the dead worker, so falling back means drawing on a new canvas element.
+  onError?: (message: string) => void;
+}
+
+// Hand the canvas to a worker and draw there, keeping heavy plugins (the
+// particle swarm in particular) off the thread that handles keys and MIDI.
+// A canvas can only be transferred once, so this takes it for good.
+export const createWorkerRenderer = (
+  canvas: HTMLCanvasElement,
+  options: WorkerRendererOptions = {}
+): VisualizerRenderer => {
+  const worker = new Worker(new URL('./render.worker.ts', import.meta.url), { type: 'module' });
+  const offscreen = canvas.transferControlToOffscreen();
+  const post = (message: RenderWorkerMessage, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+  const spareFrames: AnalyserFrame[] = [];
+  let framesInFlight = 0;
+  let unsentNotes: NoteBusEvent[] = [];
+
+  worker.onmessage = (event: MessageEvent<RenderWorkerReply>) => {
+    framesInFlight--;
+    spareFrames.push(event.data.frame);
+  };
+  worker.onerror = (event) => {
+    console.error('Visualizer worker failed:', event.message);
+    // Nothing more will be drawn, so stop feeding it
+    worker.terminate();
+    options.onError?.(event.message || 'The render worker could not be started');
+  };
+
+  post({ type: 'init', canvas: offscreen }, [offscreen]);
+
+  return {
+    setPlugin: (id, settings) => post({ type: 'plugin', id, settings }),
+    setSettings: (settings) => post({ type: 'settings', settings }),
+    resize: (size) => post({ type: 'resize', size }),
+    draw: (frame, notes) => {
+      if (notes.length) unsentNotes = unsentNotes.concat(notes);
+      if (framesInFlight >= MAX_FRAMES_IN_FLIGHT) return;
+
+      const copy = copyFrame(frame, spareFrames.pop());
+      framesInFlight++;
+      post({ type: 'frame', frame: copy, notes: unsentNotes }, frameTransferList(copy));
+      unsentNotes = [];
+    },
+    dispose: () => worker.terminate(),
+  };
+};
@@ -1,51 +1,229 @@
 
-import { useState, useCallback, useEffect } from 'react';
-import AudioEngine from '@/components/AudioEngine';
+import { useState, useCallback, useMemo, useRef } from 'react';
+import AudioEngine, { type AudioEngineHandle } from '@/components/AudioEngine';
 import Visualizer from '@/components/Visualizer';
 import Controls from '@/components/Controls';
 import Title from '@/components/Title';
+import { useMidiInput } from '@/hooks/use-midi-input';
+import { useRecorder } from '@/hooks/use-recorder';
+import { toast } from '@/hooks/use-toast';
+import { DEFAULT_ANALYSER_SETTINGS, type AnalyserSettings } from '@/lib/audio/analysis';
+import { DEFAULT_EFFECTS, type EffectSettings } from '@/lib/audio/effects';
+import { DEFAULT_MASTER_VOLUME } from '@/lib/audio/graph';
+import { usesLiveInput, type AudioSource } from '@/lib/audio/input';
+import { DEFAULT_PATCH, type SynthPatch } from '@/lib/audio/patch';
+import { renderTakeOffline } from '@/lib/audio/offlineRender';
+import { isPatchFile, loadPatchFile } from '@/lib/audio/patchFile';
+import { isSupportedAudioFile } from '@/lib/audio/trackPlayer';
+import { encodeWav, type WavBitDepth } from '@/lib/audio/wav';
+import { downloadBlob, timestampedFilename } from '@/lib/download';
+import { createFrameSource } from '@/lib/frameSource';
+import { createNoteBus } from '@/lib/noteBus';
+import { isMidiFile, loadMidiFile } from '@/lib/midi/smf';
+import type { MidiInputHandlers } from '@/lib/midi/input';
+import { DEFAULT_VISUALIZER, type VisualizerSettingsValues } from '@/lib/visualizers';
+import { DEFAULT_RENDER_SCALE } from '@/lib/visualizers/renderer';
 
 const Index = () => {
-  const [analyserData, setAnalyserData] = useState<Uint8Array | null>(null);
-  const [activeVisualizer, setActiveVisualizer] = useState<string>('bars');
+  const [activeVisualizer, setActiveVisualizer] = useState<string>(DEFAULT_VISUALIZER);
+  const [visualizerSettings, setVisualizerSettings] = useState<Record<string, VisualizerSettingsValues>>({});
+  const [renderScale, setRenderScale] = useState(DEFAULT_RENDER_SCALE);
+  const [patch, setPatch] = useState<SynthPatch>(DEFAULT_PATCH);
+  const [effects, setEffects] = useState<EffectSettings[]>(DEFAULT_EFFECTS);
+  const [volume, setVolume] = useState(DEFAULT_MASTER_VOLUME);
+  const [source, setSource] = useState<AudioSource>('synth');
+  const [analyserSettings, setAnalyserSettings] = useState<AnalyserSettings>(DEFAULT_ANALYSER_SETTINGS);
+  const [track, setTrack] = useState<File | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const engineRef = useRef<AudioEngineHandle>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  // Analyser frames go straight from the engine to the canvas, outside React state
+  const frameSource = useMemo(createFrameSource, []);
+  const noteBus = useMemo(createNoteBus, []);
 
-  // Callback to receive audio data from the AudioEngine
-  const handleAudioProcess = useCallback((data: Uint8Array) => {
-    setAnalyserData(data.slice()); // Create a copy of the data to ensure reactivity
-  }, []);
+  // Hardware controllers play through the same voice path as the on-screen keys
+  const midiHandlers = useMemo<MidiInputHandlers>(() => ({
+    onNoteOn: (note, velocity) => engineRef.current?.noteOn(note, velocity),
+    onNoteOff: (note) => engineRef.current?.noteOff(note),
+    onSustain: (on) => engineRef.current?.setSustain(on),
+    onPitchBend: (amount) => engineRef.current?.setPitchBend(amount),
+  }), []);
+  const midi = useMidiInput(midiHandlers);
+  const recording = useRecorder(engineRef);
 
   const handleChangeVisualizer = useCallback((visualizer: string) => {
     console.log("Changing visualizer to:", visualizer);
     setActiveVisualizer(visualizer);
   }, []);
 
-  // Debug effect to confirm data is being received
-  useEffect(() => {
-    if (analyserData) {
-      console.log("Received audio data, length:", analyserData.length);
+  const handleCloseTrack = useCallback(() => setTrack(null), []);
+  const getCanvas = useCallback(() => canvasRef.current, []);
+  const createAudioTap = useCallback(() => engineRef.current?.createAudioTap() ?? null, []);
+
+  // Load a .mid file as the current take and play it through the synth
+  const handleImportMidi = useCallback(async (file: File) => {
+    try {
+      const take = await loadMidiFile(file);
+      recording.recorder.setTake(take);
+      recording.recorder.play();
+    } catch (error) {
+      console.warn('Could not read MIDI file:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Unreadable MIDI file',
+        description: error instanceof Error ? error.message : `${file.name} could not be read.`,
+      });
+    }
+  }, [recording.recorder]);
+
+  // Replace the current patch with one saved as JSON
+  const handleImportPatch = useCallback(async (file: File) => {
+    try {
+      setPatch(await loadPatchFile(file));
+    } catch (error) {
+      console.warn('Could not read patch file:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Unreadable patch',
+        description: error instanceof Error ? error.message : `${file.name} could not be read.`,
+      });
     }
-  }, [analyserData]);
+  }, []);
+
+  // Bounce the current take to WAV without waiting for it to play in realtime
+  const handleBounce = useCallback(async (bitDepth: WavBitDepth) => {
+    try {
+      const rendered = await renderTakeOffline(recording.take, patch, { effects, volume });
+      const wav = encodeWav(rendered, bitDepth);
+      downloadBlob(new Blob([wav], { type: 'audio/wav' }), timestampedFilename('wav'));
+    } catch (error) {
+      console.warn('Offline render failed:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Rendering failed',
+        description: error instanceof Error ? error.message : 'The take could not be rendered.',
+      });
+    }
+  }, [recording.take, patch, effects, volume]);
+
+  // Accept audio and MIDI files dropped anywhere on the page
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  }, []);
+
+  const handleDragLeave = useCallback((e: React.DragEvent) => {
+    if (e.currentTarget === e.target) {
+      setIsDragging(false);
+    }
+  }, []);
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    if (isMidiFile(file)) {
+      handleImportMidi(file);
+      return;
+    }
+    if (isPatchFile(file)) {
+      handleImportPatch(file);
+      return;
+    }
+    if (!isSupportedAudioFile(file)) {
+      toast({
+        variant: 'destructive',
+        title: 'Unsupported file',
+        description: 'Drop an MP3, WAV, OGG, FLAC or MIDI file to play it, or a JSON patch to load it.',
+      });
+      return;
+    }
+    setTrack(file);
+  }, [handleImportMidi, handleImportPatch]);
+
+  const handleChangeVisualizerSetting = useCallback((key: string, value: unknown) => {
+    setVisualizerSettings(prev => ({
+      ...prev,
+      [activeVisualizer]: { ...prev[activeVisualizer], [key]: value },
+    }));
+  }, [activeVisualizer]);
 
   return (
-    <div className="relative min-h-screen overflow-hidden bg-black">
+    <div
+      className="relative min-h-screen overflow-hidden bg-black"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       {/* Canvas Visualizer - positioned below everything else */}
       <div className="absolute inset-0 z-0">
-        <Visualizer analyserData={analyserData} activeVisualizer={activeVisualizer} />
+        <Visualizer
+          ref={canvasRef}
+          frameSource={frameSource}
+          noteBus={noteBus}
+          activeVisualizer={activeVisualizer}
+          settings={visualizerSettings[activeVisualizer]}
+          renderScale={renderScale}
+        />
       </div>
       
       {/* Controls and UI - positioned above the visualizer */}
       <div className="relative z-20">
-        <Title />
+        <Title frameSource={frameSource} showPitch={usesLiveInput(source)} />
         <Controls 
           onChangeVisualizer={handleChangeVisualizer} 
           activeVisualizer={activeVisualizer} 
+          visualizerSettings={visualizerSettings[activeVisualizer]}
+          onChangeVisualizerSetting={handleChangeVisualizerSetting}
+          renderScale={renderScale}
+          onChangeRenderScale={setRenderScale}
+          patch={patch}
+          onChangePatch={setPatch}
+          onImportPatch={handleImportPatch}
+          effects={effects}
+          onChangeEffects={setEffects}
+          source={source}
+          onChangeSource={setSource}
+          analyserSettings={analyserSettings}
+          onChangeAnalyserSettings={setAnalyserSettings}
+          midi={midi}
+          recording={recording}
+          onImportMidi={handleImportMidi}
+          onBounce={handleBounce}
+          getCanvas={getCanvas}
+          createAudioTap={createAudioTap}
         />
       </div>
       
       {/* Audio Engine and Virtual Keyboard - positioned at the bottom but above the visualizer */}
       <div className="relative z-10">
-        <AudioEngine onAudioProcess={handleAudioProcess} />
+        <AudioEngine
+          ref={engineRef}
+          frameSource={frameSource}
+          noteBus={noteBus}
+          analyserSettings={analyserSettings}
+          effects={effects}
+          volume={volume}
+          onChangeVolume={setVolume}
+          patch={patch}
+          source={source}
+          onChangeSource={setSource}
+          track={track}
+          onCloseTrack={handleCloseTrack}
+          onNoteEvent={recording.recorder.input}
+        />
       </div>
+
+      {/* Drop target hint while a file is dragged over the page */}
+      {isDragging && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/60 border-4 border-dashed border-visualizer-primary pointer-events-none">
+          <p className="text-2xl font-semibold text-white">Drop an audio or MIDI file to play it, or a patch to load it</p>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,227 @@
+// A stand-in for the Web Audio API. Nothing is rendered; instead every
+// connection, automation call and property change is written to the
+// context's log, so graph code runs in Node and can be checked call by call.
+// The audio an OfflineAudioContext renders depends only on those calls, so
+// two identical logs mean two identical renders.
+
+export type AudioCall = [target: string, method: string, ...args: unknown[]];
+
+export class FakeAudioBuffer {
+  private channels: Float32Array[];
+
+  constructor(public numberOfChannels: number, public length: number, public sampleRate: number) {
+    this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+  }
+
+  get duration() {
+    return this.length / this.sampleRate;
+  }
+
+  getChannelData(channel: number) {
+    return this.channels[channel];
+  }
+}
+
+export class FakeAudioParam {
+  private current: number;
+
+  constructor(private context: FakeAudioContext, public id: string, value: number) {
+    this.current = value;
+  }
+
+  get value() {
+    return this.current;
+  }
+
+  set value(value: number) {
+    this.current = value;
+    this.context.record(this.id, 'value', value);
+  }
+
+  setValueAtTime(value: number, time: number) {
+    this.context.record(this.id, 'setValueAtTime', value, time);
+    return this;
+  }
+
+  linearRampToValueAtTime(value: number, time: number) {
+    this.context.record(this.id, 'linearRampToValueAtTime', value, time);
+    return this;
+  }
+
+  exponentialRampToValueAtTime(value: number, time: number) {
+    this.context.record(this.id, 'exponentialRampToValueAtTime', value, time);
+    return this;
+  }
+
+  setTargetAtTime(value: number, time: number, timeConstant: number) {
+    this.context.record(this.id, 'setTargetAtTime', value, time, timeConstant);
+    return this;
+  }
+
+  cancelScheduledValues(time: number) {
+    this.context.record(this.id, 'cancelScheduledValues', time);
+    return this;
+  }
+
+  cancelAndHoldAtTime(time: number) {
+    this.context.record(this.id, 'cancelAndHoldAtTime', time);
+    return this;
+  }
+}
+
+type Connectable = FakeAudioNode | FakeAudioParam;
+
+export class FakeAudioNode {
+  [key: string]: unknown;
+  id: string;
+
+  constructor(public context: FakeAudioContext, kind: string, params: Record<string, number> = {}) {
+    this.id = context.nextId(kind);
+    Object.entries(params).forEach(([name, value]) => {
+      this[name] = new FakeAudioParam(context, `${this.id}.${name}`, value);
+    });
+    context.nodes.push(this);
+
+    // Plain properties (type, curve, buffer...) are logged as they're set.
+    // Event handlers aren't, since they differ between otherwise equal runs,
+    // and neither is the fake's own start/stop bookkeeping.
+    return new Proxy(this, {
+      set: (target, key, value) => {
+        target[key as string] = value;
+        if (typeof key === 'string' && !/^on|Time$/.test(key)) context.record(target.id, key, value);
+        return true;
+      },
+    });
+  }
+
+  connect(destination: Connectable) {
+    this.context.record(this.id, 'connect', destination.id);
+    return destination;
+  }
+
+  disconnect(destination?: Connectable) {
+    if (destination) {
+      this.context.record(this.id, 'disconnect', destination.id);
+    } else {
+      this.context.record(this.id, 'disconnect');
+    }
+  }
+}
+
+class FakeScheduledSourceNode extends FakeAudioNode {
+  startTime: number | null = null;
+  stopTime: number | null = null;
+  onended: (() => void) | null = null;
+
+  start(time = 0) {
+    if (this.startTime !== null) throw new DOMException('Already started', 'InvalidStateError');
+    this.startTime = time;
+    this.context.record(this.id, 'start', time);
+  }
+
+  // Like the real thing, a source can only be stopped once
+  stop(time = 0) {
+    if (this.stopTime !== null) throw new DOMException('Already stopped', 'InvalidStateError');
+    this.stopTime = time;
+    this.context.record(this.id, 'stop', time);
+  }
+}
+
+class FakeOscillatorNode extends FakeScheduledSourceNode {
+  setPeriodicWave(wave: unknown) {
+    this.context.record(this.id, 'setPeriodicWave', wave);
+  }
+}
+
+export class FakeAudioContext {
+  // Every context created, newest last, for code that creates its own
+  static instances: FakeAudioContext[] = [];
+
+  currentTime = 0;
+  state: AudioContextState = 'running';
+  log: AudioCall[] = [];
+  nodes: FakeAudioNode[] = [];
+  destination: FakeAudioNode;
+  private counts = new Map<string, number>();
+
+  constructor(public sampleRate = 44100) {
+    FakeAudioContext.instances.push(this);
+    this.destination = new FakeAudioNode(this, 'destination');
+  }
+
+  nextId(kind: string) {
+    const count = this.counts.get(kind) ?? 0;
+    this.counts.set(kind, count + 1);
+    return `${kind}${count}`;
+  }
+
+  record(target: string, method: string, ...args: unknown[]) {
+    this.log.push([target, method, ...args]);
+  }
+
+  // Nodes of one kind, in creation order
+  nodesOf(kind: string) {
+    return this.nodes.filter(node => node.id.replace(/\d+$/, '') === kind);
+  }
+
+  // Calls made on one node or any of its params
+  callsTo(id: string) {
+    return this.log.filter(([target]) => target === id || target.startsWith(`${id}.`));
+  }
+
+  createGain() {
+    return new FakeAudioNode(this, 'gain', { gain: 1 });
+  }
+
+  createOscillator() {
+    return new FakeOscillatorNode(this, 'oscillator', { frequency: 440, detune: 0 });
+  }
+
+  createBiquadFilter() {
+    return new FakeAudioNode(this, 'filter', { frequency: 350, Q: 1, detune: 0, gain: 0 });
+  }
+
+  createDelay() {
+    return new FakeAudioNode(this, 'delay', { delayTime: 0 });
+  }
+
+  createConvolver() {
+    return new FakeAudioNode(this, 'convolver');
+  }
+
+  createWaveShaper() {
+    return new FakeAudioNode(this, 'shaper');
+  }
+
+  createDynamicsCompressor() {
+    return new FakeAudioNode(this, 'compressor', { threshold: -24, knee: 30, ratio: 12, attack: 0.003, release: 0.25 });
+  }
+
+  createStereoPanner() {
+    return new FakeAudioNode(this, 'panner', { pan: 0 });
+  }
+
+  createBuffer(channels: number, length: number, sampleRate: number) {
+    return new FakeAudioBuffer(channels, length, sampleRate);
+  }
+
+  createPeriodicWave(real: Float32Array, imag: Float32Array) {
+    return { real: Array.from(real), imag: Array.from(imag) };
+  }
+
+  asContext() {
+    return this as unknown as AudioContext;
+  }
+}
+
+export class FakeOfflineAudioContext extends FakeAudioContext {
+  constructor(public numberOfChannels: number, public length: number, sampleRate: number) {
+    super(sampleRate);
+  }
+
+  // Resolves with silence of the right shape; what would have been rendered
+  // is in the log
+  startRendering() {
+    return Promise.resolve(new FakeAudioBuffer(this.numberOfChannels, this.length, this.sampleRate));
+  }
+}
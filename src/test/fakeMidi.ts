@@ -0,0 +1,37 @@
+// A stand-in for the Web MIDI API, so MIDI handling runs without a browser or
+// hardware. Inputs are plain EventTargets; plugging and unplugging fires
+// statechange on the access object like the real thing.
+
+export class FakeMidiInput extends EventTarget {
+  constructor(public id: string, public name: string) {
+    super();
+  }
+
+  // Deliver raw bytes as if the device had sent them
+  send(bytes: number[]) {
+    this.dispatchEvent(Object.assign(new Event('midimessage'), { data: new Uint8Array(bytes) }));
+  }
+}
+
+export class FakeMidiAccess extends EventTarget {
+  inputs = new Map<string, FakeMidiInput>();
+
+  constructor(inputs: FakeMidiInput[] = []) {
+    super();
+    inputs.forEach(input => this.inputs.set(input.id, input));
+  }
+
+  plug(input: FakeMidiInput) {
+    this.inputs.set(input.id, input);
+    this.dispatchEvent(new Event('statechange'));
+  }
+
+  unplug(id: string) {
+    this.inputs.delete(id);
+    this.dispatchEvent(new Event('statechange'));
+  }
+
+  asAccess() {
+    return this as unknown as MIDIAccess;
+  }
+}